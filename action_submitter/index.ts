@@ -3,9 +3,15 @@
  * Improved version with consistent error handling and Promise support
  */
 
-import type { ActionSubmitter } from '../types';
+import type { ActionSubmitter, SubmitAndWaitOptions } from '../types';
 import { type BroadcastChannel, ChannelError } from '../utils/broadcast_channel';
-import { logger } from '../utils/logger';
+import { getLogger } from '../utils/logger';
+import type { SpanContext } from '../utils/tracing';
+import type { ActionEnvelope, ActionResultTracker } from './results';
+
+export * from './results';
+
+const logger = getLogger('action_submitter');
 
 /**
  * Result of submitting an action
@@ -17,18 +23,53 @@ export interface SubmitResult {
   error?: string;
 }
 
+/**
+ * Options for an ActionChannelSubmitter
+ */
+export interface ActionChannelSubmitterOptions<A> {
+  /** Called when a submitted action is not delivered to any receiver */
+  onUnrouted?: (action: A) => void;
+  /** Tracker used to correlate actions with executor results, required by submitAndWait */
+  results?: ActionResultTracker;
+  /** Span that caused the submitted actions, attached to every envelope */
+  trace?: SpanContext;
+}
+
 /**
  * ActionChannelSubmitter - submits actions to a broadcast channel
  */
 export class ActionChannelSubmitter<A> implements ActionSubmitter<A> {
-  private channel: BroadcastChannel<A>;
+  private channel: BroadcastChannel<ActionEnvelope<A>>;
+  private readonly onUnrouted?: (action: A) => void;
+  private readonly results?: ActionResultTracker;
+  private readonly trace?: SpanContext;
 
   /**
    * Create a new ActionChannelSubmitter
    * @param channel The broadcast channel to submit actions to
+   * @param options Additional options
    */
-  constructor(channel: BroadcastChannel<A>) {
+  constructor(
+    channel: BroadcastChannel<ActionEnvelope<A>>,
+    options: ActionChannelSubmitterOptions<A> = {}
+  ) {
     this.channel = channel;
+    this.onUnrouted = options.onUnrouted;
+    this.results = options.results;
+    this.trace = options.trace;
+  }
+
+  /**
+   * Get a submitter for the same channel that attaches a span to every action
+   * @param trace The span that causes the submitted actions
+   * @returns A new submitter
+   */
+  withTrace(trace: SpanContext): ActionChannelSubmitter<A> {
+    return new ActionChannelSubmitter(this.channel, {
+      onUnrouted: this.onUnrouted,
+      results: this.results,
+      trace,
+    });
   }
 
   /**
@@ -37,24 +78,35 @@ export class ActionChannelSubmitter<A> implements ActionSubmitter<A> {
    */
   submit(action: A): void {
     try {
-      this.channel.send(action);
+      this.send(action);
     } catch (e) {
       if (e instanceof ChannelError) {
-        logger.error(`Channel error submitting action: ${e.message}`);
+        logger.error('Channel error submitting action', { error: e });
       } else {
-        logger.error(`Error submitting action: ${e}`);
+        logger.error('Error submitting action', { error: e });
       }
     }
   }
 
   /**
    * Submit an action to the channel asynchronously
+   * Waits for capacity if the channel uses the block overflow policy
    * @param action The action to submit
-   * @returns A promise that resolves to the result of the submission
+   * @returns A promise that resolves to the result of the submission,
+   * unsuccessful if no receiver accepted the action
    */
   async submitAsync(action: A): Promise<SubmitResult> {
     try {
-      this.channel.send(action);
+      const envelope = this.envelope(action);
+      const delivered = this.route(envelope, await this.channel.sendAsync(envelope));
+      if (delivered === 0) {
+        return {
+          success: false,
+          error: this.channel.hasReceiverFor(envelope)
+            ? 'Action dropped: receiver buffer full'
+            : 'Action not accepted by any receiver',
+        };
+      }
       return { success: true };
     } catch (e) {
       let errorMessage: string;
@@ -78,11 +130,73 @@ export class ActionChannelSubmitter<A> implements ActionSubmitter<A> {
    * @returns Whether the action was submitted successfully
    */
   trySubmit(action: A): boolean {
+    if (this.channel.isClosed()) {
+      return false;
+    }
+
     try {
-      return this.channel.trySend(action);
+      this.send(action);
+      return true;
     } catch (e) {
-      logger.debug(`Failed to submit action: ${e}`);
+      logger.debug('Failed to submit action', { error: e });
       return false;
     }
   }
+
+  /**
+   * Submit an action and wait for the result of the executor that handled it
+   * @param action The action to submit
+   * @param options Options for waiting on the result
+   * @returns A promise that resolves to the executor's result, or rejects with its error
+   */
+  async submitAndWait<R = unknown>(action: A, options: SubmitAndWaitOptions = {}): Promise<R> {
+    if (!this.results) {
+      throw new Error('submitAndWait requires an ActionResultTracker');
+    }
+
+    const { id, result } = this.results.register<R>(options.timeoutMs);
+    try {
+      const envelope = this.envelope(action, id);
+      this.results.expect(id, this.route(envelope, await this.channel.sendAsync(envelope)));
+    } catch (e) {
+      this.results.fail(id, e);
+    }
+
+    return result;
+  }
+
+  /**
+   * Send an action to the channel
+   * @param action The action to send
+   * @returns The number of receivers the action was delivered to
+   */
+  private send(action: A): number {
+    const envelope = this.envelope(action);
+    return this.route(envelope, this.channel.send(envelope));
+  }
+
+  /**
+   * Wrap an action for the channel
+   * @param action The action to wrap
+   * @param id The correlation id, if the submitter waits for the result
+   */
+  private envelope(action: A, id?: number): ActionEnvelope<A> {
+    const envelope: ActionEnvelope<A> = { action };
+    if (id !== undefined) envelope.id = id;
+    if (this.trace) envelope.trace = this.trace;
+    return envelope;
+  }
+
+  /**
+   * Report an action that was delivered nowhere because no receiver accepts it
+   * @param envelope The envelope that was sent
+   * @param delivered The number of receivers the action was delivered to
+   * @returns The number of receivers the action was delivered to
+   */
+  private route(envelope: ActionEnvelope<A>, delivered: number): number {
+    if (delivered === 0 && this.onUnrouted && !this.channel.hasReceiverFor(envelope)) {
+      this.onUnrouted(envelope.action);
+    }
+    return delivered;
+  }
 }
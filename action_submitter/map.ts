@@ -3,7 +3,7 @@
  * Ported from Rust crate burberry/src/action_submitter/map.rs
  */
 
-import type { ActionSubmitter, SubmitResult } from '../types';
+import type { ActionSubmitter, SubmitAndWaitOptions, SubmitResult } from '../types';
 
 /**
  * ActionSubmitterMap - maps actions from one type to another
@@ -58,4 +58,23 @@ export class ActionSubmitterMap<A1, A2> implements ActionSubmitter<A1> {
     }
     return true;
   }
+
+  /**
+   * Submit an action and wait for the result of the executor that handled it
+   * @param action The action to submit
+   * @param options Options for waiting on the result
+   * @returns A promise that resolves to the executor's result, or undefined if the action
+   * was filtered out
+   */
+  async submitAndWait<R = unknown>(action: A1, options?: SubmitAndWaitOptions): Promise<R> {
+    if (!this.submitter.submitAndWait) {
+      throw new Error('The inner submitter does not support submitAndWait');
+    }
+
+    const mappedAction = this.f(action);
+    if (mappedAction !== null && mappedAction !== undefined) {
+      return this.submitter.submitAndWait<R>(mappedAction, options);
+    }
+    return undefined as R;
+  }
 }
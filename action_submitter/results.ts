@@ -0,0 +1,157 @@
+/**
+ * Action results
+ * Correlates submitted actions with the results of the executors that handled them
+ */
+
+import { TimeoutError } from '../utils/timeout';
+import type { SpanContext } from '../utils/tracing';
+
+/**
+ * An action travelling on the engine's action channel
+ */
+export interface ActionEnvelope<A> {
+  /** The submitted action */
+  action: A;
+  /** Correlation id, set when the submitter waits for the action's result */
+  id?: number;
+  /** Span of the event processing that submitted the action, when tracing is enabled */
+  trace?: SpanContext;
+}
+
+/**
+ * State of an action waiting for its result
+ */
+interface PendingResult {
+  resolve: (value: unknown) => void;
+  reject: (error: unknown) => void;
+  timer: ReturnType<typeof setTimeout>;
+  /** Number of executors the action was delivered to, once known */
+  receivers?: number;
+  errors: unknown[];
+}
+
+/**
+ * ActionResultTracker - tracks actions waiting for an executor result
+ *
+ * An action may be delivered to several executors: the first successful result
+ * resolves it, and it is rejected with the first error once every executor failed.
+ */
+export class ActionResultTracker {
+  private pending = new Map<number, PendingResult>();
+  private nextId = 1;
+
+  /**
+   * Register an action that waits for its result
+   * @param timeoutMs Maximum time to wait for the result in milliseconds
+   * @returns The correlation id and a promise for the result
+   */
+  register<R>(timeoutMs = 30000): { id: number; result: Promise<R> } {
+    const id = this.nextId++;
+
+    const result = new Promise<R>((resolve, reject) => {
+      const timer = setTimeout(() => {
+        this.settle(id, () =>
+          reject(new TimeoutError(`No result for action ${id} after ${timeoutMs}ms`, timeoutMs))
+        );
+      }, timeoutMs);
+
+      this.pending.set(id, {
+        resolve: resolve as (value: unknown) => void,
+        reject,
+        timer,
+        errors: [],
+      });
+    });
+
+    return { id, result };
+  }
+
+  /**
+   * Record the number of executors an action was delivered to
+   * @param id The correlation id
+   * @param receivers The number of executors that received the action
+   */
+  expect(id: number, receivers: number): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    entry.receivers = receivers;
+    if (receivers === 0) {
+      this.settle(id, () => entry.reject(new Error('Action not accepted by any receiver')));
+    } else if (entry.errors.length >= receivers) {
+      this.settle(id, () => entry.reject(entry.errors[0]));
+    }
+  }
+
+  /**
+   * Resolve an action with an executor's result
+   * @param id The correlation id, ignored if undefined
+   * @param value The result returned by the executor
+   */
+  resolve(id: number | undefined, value: unknown): void {
+    if (id === undefined) return;
+
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    this.settle(id, () => entry.resolve(value));
+  }
+
+  /**
+   * Record an executor's failure for an action
+   * @param id The correlation id, ignored if undefined
+   * @param error The error thrown by the executor
+   */
+  reject(id: number | undefined, error: unknown): void {
+    if (id === undefined) return;
+
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    entry.errors.push(error);
+    if (entry.receivers !== undefined && entry.errors.length >= entry.receivers) {
+      this.settle(id, () => entry.reject(entry.errors[0]));
+    }
+  }
+
+  /**
+   * Reject an action immediately, e.g. when it could not be submitted
+   * @param id The correlation id
+   * @param error The error to reject with
+   */
+  fail(id: number, error: unknown): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    this.settle(id, () => entry.reject(error));
+  }
+
+  /**
+   * Reject all pending actions
+   * @param error The error to reject with
+   */
+  rejectAll(error: unknown): void {
+    for (const [id, entry] of [...this.pending]) {
+      this.settle(id, () => entry.reject(error));
+    }
+  }
+
+  /**
+   * Get the number of actions waiting for a result
+   */
+  pendingCount(): number {
+    return this.pending.size;
+  }
+
+  /**
+   * Remove a pending action and run its completion
+   */
+  private settle(id: number, complete: () => void): void {
+    const entry = this.pending.get(id);
+    if (!entry) return;
+
+    clearTimeout(entry.timer);
+    this.pending.delete(id);
+    complete();
+  }
+}
@@ -4,9 +4,11 @@
  */
 
 import type { ActionSubmitter, SubmitResult } from '../types';
-import { logger } from '../utils/logger';
+import { getLogger } from '../utils/logger';
 import { TelegramClient, type TelegramConfig, type TelegramMessage } from '../utils/telegram';
 
+const logger = getLogger('action_submitter.telegram');
+
 /**
  * TelegramSubmitter - submits messages to Telegram
  */
@@ -62,7 +64,7 @@ export class TelegramSubmitter implements ActionSubmitter<TelegramMessage> {
 
     // Use a Promise instead of spawning a thread
     this.client.sendMessage(finalMessage).catch((e) => {
-      logger.error(`Error sending message: ${e}`);
+      logger.error('Error sending message', { error: e });
     });
   }
 
@@ -103,7 +105,7 @@ export class TelegramSubmitter implements ActionSubmitter<TelegramMessage> {
       this.submit(message);
       return true;
     } catch (e) {
-      logger.debug(`Failed to send message: ${e}`);
+      logger.debug('Failed to send message', { error: e });
       return false;
     }
   }
@@ -12,7 +12,12 @@ import {
   webSocket,
 } from 'viem';
 import type { Collector, CollectorStream } from '../types';
-import { logger } from '../utils/logger';
+import { BroadcastChannel } from '../utils/broadcast_channel';
+import { getLogger } from '../utils/logger';
+import { type ClientSource, toPublicClient } from '../utils/provider_pool';
+import { type Reorg, ReorgCollector, ReorgDetector } from './reorg';
+
+const logger = getLogger('collector.block');
 
 /**
  * Configuration for the BlockCollector
@@ -24,27 +29,96 @@ export interface BlockCollectorConfig {
   maxQueueSize?: number;
   /** Whether to include transactions in the blocks */
   includeTransactions?: boolean;
+  /** Number of recent block hashes kept to detect reorgs (default: 64) */
+  reorgWindow?: number;
+  /** Fetch and emit the blocks skipped between two polls (for HTTP transport, default: false) */
+  gapFill?: boolean;
+  /** Number of skipped blocks fetched at once (default: 4) */
+  gapFillConcurrency?: number;
+  /** Most skipped blocks fetched for one gap, older blocks are left out (default: 1000) */
+  maxGapFill?: number;
+}
+
+/**
+ * Options for fetching missing blocks
+ */
+export interface FetchMissingBlocksOptions {
+  /** Number of blocks fetched at once (default: 4) */
+  concurrency?: number;
+  /** Most blocks fetched, older blocks are left out (default: 1000) */
+  maxBlocks?: number;
+  /** Whether to include transactions in the blocks */
+  includeTransactions?: boolean;
+}
+
+/**
+ * Fetch the blocks between the last block seen and a new head, oldest first
+ * @param client The Ethereum client to use
+ * @param lastBlockNumber The last block seen
+ * @param headNumber The new head
+ * @param options Options for fetching
+ * @returns The blocks after lastBlockNumber and before headNumber
+ */
+export async function fetchMissingBlocks(
+  client: PublicClient,
+  lastBlockNumber: bigint,
+  headNumber: bigint,
+  options: FetchMissingBlocksOptions = {}
+): Promise<Block[]> {
+  const concurrency = BigInt(Math.max(1, options.concurrency ?? 4));
+  const maxBlocks = BigInt(Math.max(0, options.maxBlocks ?? 1000));
+
+  let from = lastBlockNumber + 1n;
+  if (headNumber - from > maxBlocks) {
+    logger.warn(`Gap of ${headNumber - from} blocks exceeds ${maxBlocks}, skipping older blocks`);
+    from = headNumber - maxBlocks;
+  }
+
+  const blocks: Block[] = [];
+  for (let start = from; start < headNumber; start += concurrency) {
+    const end = start + concurrency < headNumber ? start + concurrency : headNumber;
+    const numbers: bigint[] = [];
+    for (let blockNumber = start; blockNumber < end; blockNumber++) {
+      numbers.push(blockNumber);
+    }
+
+    const batch = await Promise.all(
+      numbers.map((blockNumber) =>
+        client.getBlock({ blockNumber, includeTransactions: options.includeTransactions })
+      )
+    );
+    blocks.push(...(batch as Block[]));
+  }
+  return blocks;
 }
 
 /**
  * BlockCollector - collects new blocks from an Ethereum node
+ *
+ * Each block is checked against the hashes of the recent blocks. When a block replaces blocks
+ * that were already emitted, the block is emitted and a Reorg is published to reorgs().
  */
 export class BlockCollector implements Collector<Block> {
   private client: PublicClient;
   private config: BlockCollectorConfig;
   private isWebSocket: boolean;
+  private reorgChannel = new BroadcastChannel<Reorg>(100);
 
   /**
    * Create a new BlockCollector
-   * @param client The Ethereum client to use
+   * @param client The Ethereum client to use, or a pool of endpoints
    * @param config Configuration options
    */
-  constructor(client: PublicClient, config: BlockCollectorConfig = {}) {
-    this.client = client;
+  constructor(client: ClientSource, config: BlockCollectorConfig = {}) {
+    this.client = toPublicClient(client);
     this.config = {
       pollingIntervalMs: 1000,
       maxQueueSize: 100,
       includeTransactions: false,
+      reorgWindow: 64,
+      gapFill: false,
+      gapFillConcurrency: 4,
+      maxGapFill: 1000,
       ...config,
     };
 
@@ -91,13 +165,62 @@ export class BlockCollector implements Collector<Block> {
     return 'BlockCollector';
   }
 
+  /**
+   * Get a collector for the reorgs this collector detects while its event stream runs
+   * @returns A collector of reorgs
+   */
+  reorgs(): Collector<Reorg> {
+    return new ReorgCollector(this.reorgChannel, 'BlockCollector.reorgs');
+  }
+
+  /**
+   * Create a detector that fetches canonical blocks from the client
+   */
+  private createReorgDetector(): ReorgDetector {
+    return new ReorgDetector(async (blockNumber) => {
+      const block = await this.client.getBlock({ blockNumber });
+      return { number: blockNumber, hash: block.hash };
+    }, this.config.reorgWindow);
+  }
+
+  /**
+   * Check a block for reorgs, publishing any reorg found
+   * @param block The block
+   * @param detector The detector of the event stream
+   * @returns Whether the block should be emitted
+   */
+  private async acceptBlock(block: Block, detector: ReorgDetector): Promise<boolean> {
+    if (block.number === null || block.hash === null) {
+      // Skip pending blocks
+      return false;
+    }
+
+    try {
+      const { isNew, reorg } = await detector.check({
+        number: block.number,
+        hash: block.hash,
+        parentHash: block.parentHash,
+      });
+      if (reorg) {
+        this.reorgChannel.send(reorg);
+      }
+      return isNew;
+    } catch (error) {
+      logger.error('Failed to check block for reorgs', { error });
+      const latest = detector.latest();
+      return latest === undefined || block.number > latest;
+    }
+  }
+
   async getEventStream(): Promise<CollectorStream<Block>> {
     // Create a queue to buffer blocks
     const queue: Block[] = [];
     let resolvers: ((value: IteratorResult<Block>) => void)[] = [];
     let done = false;
-    let lastBlockNumber: bigint | null = null;
     let cleanupFn: (() => void) | null = null;
+    const detector = this.createReorgDetector();
+    // Blocks are checked one at a time, in the order they arrive
+    let processing = Promise.resolve();
 
     if (this.isWebSocket) {
       // Use WebSocket subscription for real-time blocks
@@ -113,14 +236,11 @@ export class BlockCollector implements Collector<Block> {
               return;
             }
 
-            // Only process if it's a new block
-            if (block.number === undefined) {
-              // Skip blocks without a number
-              return;
-            }
-
-            if (lastBlockNumber === null || block.number > lastBlockNumber) {
-              lastBlockNumber = block.number;
+            processing = processing.then(async () => {
+              // Only process if it's a new block
+              if (!(await this.acceptBlock(block, detector)) || done) {
+                return;
+              }
 
               if (resolvers.length > 0) {
                 // If there are waiting resolvers, resolve one with the block
@@ -139,7 +259,7 @@ export class BlockCollector implements Collector<Block> {
                   logger.warn('BlockCollector queue overflow, dropping oldest block');
                 }
               }
-            }
+            });
           },
           includeTransactions: this.config.includeTransactions,
         });
@@ -169,7 +289,7 @@ export class BlockCollector implements Collector<Block> {
           queue.length = 0;
         };
       } catch (error) {
-        logger.error(`Failed to set up WebSocket subscription: ${error}`);
+        logger.error('Failed to set up WebSocket subscription', { error });
         // Fall back to polling if subscription fails
         logger.warn('Falling back to polling for blocks');
         return this.getPollingEventStream();
@@ -221,8 +341,10 @@ export class BlockCollector implements Collector<Block> {
     // Create a queue to buffer blocks
     const queue: Block[] = [];
     let resolvers: ((value: IteratorResult<Block>) => void)[] = [];
+    // Gap filling waits for queue space, so filled blocks are not dropped as overflow
+    let spaceWaiters: (() => void)[] = [];
     let done = false;
-    let lastBlockNumber: bigint | null = null;
+    const detector = this.createReorgDetector();
     let intervalId: NodeJS.Timeout | null = null;
     let abortController = new AbortController();
     let isPolling = false; // Flag to prevent concurrent polling
@@ -267,9 +389,33 @@ export class BlockCollector implements Collector<Block> {
           return;
         }
 
-        // Only process if it's a new block
-        if (lastBlockNumber === null || block.number > lastBlockNumber) {
-          lastBlockNumber = block.number;
+        // Fetch the blocks skipped since the last poll, so they are emitted before the head
+        const blocks: Block[] = [block];
+        const lastBlockNumber = detector.latest();
+        if (
+          this.config.gapFill &&
+          lastBlockNumber !== undefined &&
+          block.number > lastBlockNumber + 1n
+        ) {
+          const missing = await fetchMissingBlocks(this.client, lastBlockNumber, block.number, {
+            concurrency: this.config.gapFillConcurrency,
+            maxBlocks: this.config.maxGapFill,
+            includeTransactions: this.config.includeTransactions,
+          });
+          logger.debug(`Filled ${missing.length} skipped blocks before block ${block.number}`);
+          blocks.unshift(...missing);
+        }
+
+        const maxQueueSize = this.config.maxQueueSize ?? 100;
+        for (const block of blocks) {
+          while (blocks.length > 1 && queue.length >= maxQueueSize && !done) {
+            await new Promise<void>((resolve) => spaceWaiters.push(resolve));
+          }
+
+          // Only process if it's a new block
+          if (!(await this.acceptBlock(block, detector)) || done) {
+            continue;
+          }
 
           if (resolvers.length > 0) {
             // If there are waiting resolvers, resolve one with the block
@@ -282,7 +428,6 @@ export class BlockCollector implements Collector<Block> {
             queue.push(block);
 
             // Limit queue size
-            const maxQueueSize = this.config.maxQueueSize ?? 100;
             if (queue.length > maxQueueSize) {
               queue.shift();
               logger.warn('BlockCollector queue overflow, dropping oldest block');
@@ -295,7 +440,7 @@ export class BlockCollector implements Collector<Block> {
           return;
         }
 
-        logger.error(`Error in BlockCollector: ${error}`);
+        logger.error('Error in BlockCollector', { error });
 
         // Implement exponential backoff
         consecutiveErrors++;
@@ -342,6 +487,12 @@ export class BlockCollector implements Collector<Block> {
       }
       resolvers = [];
 
+      // Release a gap fill waiting for queue space
+      for (const wake of spaceWaiters) {
+        wake();
+      }
+      spaceWaiters = [];
+
       // Clear the queue
       queue.length = 0;
     };
@@ -360,6 +511,9 @@ export class BlockCollector implements Collector<Block> {
             // This should never happen, but we handle it just in case
             return { done: true, value: undefined as unknown };
           }
+          for (const wake of spaceWaiters.splice(0)) {
+            wake();
+          }
           return { done: false, value: block };
         }
 
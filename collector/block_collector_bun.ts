@@ -6,7 +6,10 @@
 import { join } from 'node:path';
 import type { Block, Chain, PublicClient } from 'viem';
 import type { Collector, CollectorStream } from '../types';
-import { logger } from '../utils/logger';
+import { parseWithBigInt } from '../utils/json';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger('collector.block_bun');
 
 /**
  * Configuration for the BlockCollectorBun
@@ -20,6 +23,15 @@ export interface BlockCollectorBunConfig {
   includeTransactions?: boolean;
   /** Preferred transport type ('webSocket' or 'http') */
   preferredTransport?: 'webSocket' | 'http';
+  /**
+   * Fetch and emit the blocks skipped between two polls, or while the worker was paused because
+   * the queue was full (default: false)
+   */
+  gapFill?: boolean;
+  /** Number of skipped blocks fetched at once (default: 4) */
+  gapFillConcurrency?: number;
+  /** Most skipped blocks fetched for one gap, older blocks are left out (default: 1000) */
+  maxGapFill?: number;
 }
 
 /**
@@ -45,6 +57,9 @@ export class BlockCollectorBun implements Collector<Block> {
       maxQueueSize: 100,
       includeTransactions: false,
       preferredTransport: 'webSocket',
+      gapFill: false,
+      gapFillConcurrency: 4,
+      maxGapFill: 1000,
       ...config,
     };
 
@@ -111,6 +126,8 @@ export class BlockCollectorBun implements Collector<Block> {
     let resolvers: ((value: IteratorResult<Block>) => void)[] = [];
     // Flag to track if the collector is done
     let done = false;
+    // Whether the worker was asked to stop sending blocks because the queue is full
+    let paused = false;
 
     // Capture config values for use in closures
     const maxQueueSize = this.config.maxQueueSize ?? 100;
@@ -126,13 +143,16 @@ export class BlockCollectorBun implements Collector<Block> {
       TRANSPORT_TYPE: this.config.preferredTransport,
       POLLING_INTERVAL_MS: (this.config.pollingIntervalMs ?? 1000).toString(),
       INCLUDE_TRANSACTIONS: (this.config.includeTransactions ?? false).toString(),
+      GAP_FILL: (this.config.gapFill ?? false).toString(),
+      GAP_FILL_CONCURRENCY: (this.config.gapFillConcurrency ?? 4).toString(),
+      MAX_GAP_FILL: (this.config.maxGapFill ?? 1000).toString(),
     };
 
     // Spawn the worker process
     const proc = Bun.spawn({
       cmd: [process.execPath, this.workerPath],
       env,
-      ipc(message) {
+      ipc(message, subprocess) {
         if (message && typeof message === 'object') {
           // Handle ready message
           if ('type' in message && message.type === 'ready') {
@@ -148,17 +168,8 @@ export class BlockCollectorBun implements Collector<Block> {
           // Handle block message
           else if ('type' in message && message.type === 'block' && 'data' in message) {
             try {
-              // Parse the serialized block
-              const blockData = JSON.parse(message.data as string, (key, value) => {
-                // Convert string representations of bigint back to bigint
-                if (typeof value === 'string' && /^\d+n$/.test(value)) {
-                  return BigInt(value.slice(0, -1));
-                }
-                return value;
-              });
-
-              // Create a Block object
-              const block = blockData as Block;
+              // Parse the serialized block, restoring its bigints
+              const block = parseWithBigInt<Block>(message.data as string);
 
               // If there are waiting resolvers, resolve one with the block
               if (resolvers.length > 0) {
@@ -170,14 +181,17 @@ export class BlockCollectorBun implements Collector<Block> {
                 // Otherwise, add the block to the queue
                 queue.push(block);
 
-                // Limit queue size
-                if (queue.length > maxQueueSize) {
-                  queue.shift();
-                  logger.warn('BlockCollectorBun queue overflow, dropping oldest block');
+                // Apply backpressure instead of dropping blocks: the worker stops sending
+                // blocks until the queue has room again. Blocks it sent meanwhile are still
+                // queued, so the queue can briefly exceed maxQueueSize by one gap fill.
+                if (queue.length >= maxQueueSize && !paused) {
+                  paused = true;
+                  subprocess.send('pause');
+                  logger.debug('BlockCollectorBun queue full, pausing worker');
                 }
               }
             } catch (error) {
-              logger.error(`Error parsing block data: ${error}`);
+              logger.error('Error parsing block data', { error });
             }
           }
         }
@@ -186,7 +200,7 @@ export class BlockCollectorBun implements Collector<Block> {
         logger.debug(`BlockCollectorBun worker exited with code ${exitCode}`);
 
         if (error) {
-          logger.error(`BlockCollectorBun worker error: ${error}`);
+          logger.error('BlockCollectorBun worker error', { error });
         }
 
         // Mark as done
@@ -242,6 +256,11 @@ export class BlockCollectorBun implements Collector<Block> {
             // This should never happen, but we handle it just in case
             return { done: true, value: undefined as unknown };
           }
+          if (paused && queue.length <= maxQueueSize / 2) {
+            paused = false;
+            proc.send('resume');
+            logger.debug('BlockCollectorBun queue drained, resuming worker');
+          }
           return { done: false, value: block };
         }
 
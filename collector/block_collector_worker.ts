@@ -4,7 +4,16 @@
  * This runs in a separate process and sends blocks back to the parent
  */
 
-import { http, type Block, type Chain, createPublicClient, webSocket } from 'viem';
+import {
+  http,
+  type Block,
+  type Chain,
+  type PublicClient,
+  createPublicClient,
+  webSocket,
+} from 'viem';
+import { stringifyWithBigInt } from '../utils/json';
+import { fetchMissingBlocks } from './block_collector';
 
 // Parse configuration from environment variables
 const rpcUrl = process.env.RPC_URL;
@@ -12,6 +21,9 @@ const chainId = Number.parseInt(process.env.CHAIN_ID || '1', 10);
 const transportType = process.env.TRANSPORT_TYPE || 'http';
 const pollingIntervalMs = Number.parseInt(process.env.POLLING_INTERVAL_MS || '1000', 10);
 const includeTransactions = process.env.INCLUDE_TRANSACTIONS === 'true';
+const gapFill = process.env.GAP_FILL === 'true';
+const gapFillConcurrency = Number.parseInt(process.env.GAP_FILL_CONCURRENCY || '4', 10);
+const maxGapFill = Number.parseInt(process.env.MAX_GAP_FILL || '1000', 10);
 
 if (!rpcUrl) {
   console.error('[Worker] Missing RPC_URL environment variable');
@@ -21,6 +33,14 @@ if (!rpcUrl) {
 // Track the last block number we've seen
 let lastBlockNumber: bigint | null = null;
 
+// Set while the parent's queue is full, no blocks are sent until it asks to resume
+let paused = false;
+process.on('message', (message) => {
+  if (message === 'pause' || message === 'resume') {
+    paused = message === 'pause';
+  }
+});
+
 /**
  * Send a block to the parent process
  */
@@ -34,15 +54,34 @@ function sendBlock(block: Block) {
     lastBlockNumber = block.number;
 
     // Send the block to the parent process
-    // We need to serialize the block to avoid issues with bigint
-    const serializedBlock = JSON.stringify(block, (_, value) =>
-      typeof value === 'bigint' ? value.toString() : value
-    );
+    // Encode bigints as "123n" so the parent can restore them
+    const serializedBlock = stringifyWithBigInt(block);
 
     process.send?.({ type: 'block', data: serializedBlock });
   }
 }
 
+/**
+ * Send a new head to the parent process, after the blocks skipped since the last block sent
+ * Blocks are skipped while paused, so with gap filling they are fetched once resumed.
+ */
+async function sendHead(client: PublicClient, block: Block) {
+  if (gapFill && lastBlockNumber !== null && block.number !== null) {
+    if (block.number > lastBlockNumber + 1n) {
+      const missing = await fetchMissingBlocks(client, lastBlockNumber, block.number, {
+        concurrency: gapFillConcurrency,
+        maxBlocks: maxGapFill,
+        includeTransactions,
+      });
+      for (const missingBlock of missing) {
+        sendBlock(missingBlock);
+      }
+    }
+  }
+
+  sendBlock(block);
+}
+
 /**
  * Set up WebSocket subscription
  */
@@ -56,9 +95,20 @@ async function setupWebSocketSubscription() {
       chain: { id: chainId } as Chain,
     });
 
+    // Send heads one after another, so a gap fill is not overtaken by the next head
+    let sending = Promise.resolve();
+
     // Watch for new blocks
     const unwatch = await client.watchBlocks({
-      onBlock: sendBlock,
+      onBlock: (block) => {
+        if (paused) return;
+        sending = sending
+          .then(() => sendHead(client as PublicClient, block))
+          .catch((error) => {
+            console.error(`[Worker] Gap fill error: ${error}`);
+            process.send?.({ type: 'error', message: `Gap fill error: ${error}` });
+          });
+      },
       includeTransactions,
     });
 
@@ -108,8 +158,8 @@ async function setupPolling() {
 
   // Polling function
   const pollBlock = async () => {
-    // Skip if already polling
-    if (isPolling) return;
+    // Skip if already polling, or while the parent's queue is full
+    if (isPolling || paused) return;
 
     isPolling = true;
 
@@ -119,8 +169,8 @@ async function setupPolling() {
         includeTransactions,
       });
 
-      // Send the block to the parent process
-      sendBlock(block);
+      // Send the block to the parent process, after the blocks skipped since the last poll
+      await sendHead(client as PublicClient, block);
     } catch (error) {
       console.error(`[Worker] Polling error: ${error}`);
       process.send?.({ type: 'error', message: `Polling error: ${error}` });
@@ -0,0 +1,263 @@
+/**
+ * Contract event collector
+ * Collects the logs of contract events and decodes them with the contract ABI
+ */
+
+import {
+  http,
+  type Abi,
+  type AbiEvent,
+  type Address,
+  type Chain,
+  type ContractEventName,
+  type Hex,
+  type Log,
+  type PublicClient,
+  createPublicClient,
+  decodeEventLog,
+  toEventSelector,
+  webSocket,
+} from 'viem';
+import type { Collector, CollectorStream } from '../types';
+import { getLogger } from '../utils/logger';
+import type { ClientSource } from '../utils/provider_pool';
+import { LogCollector, type LogCollectorConfig } from './log_collector';
+import type { Reorg } from './reorg';
+
+const logger = getLogger('collector.contract_event');
+
+/**
+ * A decoded contract event: the log with its typed eventName and args
+ */
+export type ContractEvent<
+  TAbi extends Abi,
+  TEventName extends ContractEventName<TAbi> = ContractEventName<TAbi>,
+> = Log<bigint, number, false, undefined, true, TAbi, TEventName>;
+
+/**
+ * Filter for contract events
+ */
+export interface ContractEventFilter<TAbi extends Abi, TEventName extends ContractEventName<TAbi>> {
+  /** ABI of the contract */
+  abi: TAbi;
+  /** Events to collect (default: every event of the ABI that is not anonymous) */
+  eventName?: TEventName | TEventName[];
+  /** Contracts to collect events from (default: any contract) */
+  address?: Address | Address[];
+  /** Backfill from this block before collecting live events */
+  fromBlock?: bigint;
+  /** With fromBlock, end the stream after this block instead of switching to live events */
+  toBlock?: bigint;
+}
+
+/**
+ * Configuration for the ContractEventCollector
+ */
+export interface ContractEventCollectorConfig extends LogCollectorConfig {
+  /**
+   * Called with logs that cannot be decoded, e.g. because a contract emits an event with the same
+   * signature but other indexed arguments, or because the log is not one of the collected events.
+   * These logs are skipped. (default: log a warning)
+   */
+  onDecodeError?: (error: Error, log: Log) => void;
+}
+
+/**
+ * ContractEventCollector - collects decoded contract events
+ *
+ * Logs are collected by a LogCollector filtering on the selectors of the events, so backfill,
+ * checkpoints and reorg handling work the same. Logs of orphaned blocks are emitted again with
+ * removed set to true.
+ */
+export class ContractEventCollector<
+  const TAbi extends Abi,
+  TEventName extends ContractEventName<TAbi> = ContractEventName<TAbi>,
+> implements Collector<ContractEvent<TAbi, TEventName>>
+{
+  private readonly logs: LogCollector;
+  /** Collected events by selector */
+  private readonly events: Map<Hex, AbiEvent>;
+  private readonly onDecodeError?: (error: Error, log: Log) => void;
+
+  /**
+   * Create a new ContractEventCollector
+   * @param client The Ethereum client to use, or a pool of endpoints
+   * @param filter The ABI and the events to collect
+   * @param config Configuration options
+   * @throws If the ABI has none of the events, or an event is anonymous
+   */
+  constructor(
+    client: ClientSource,
+    filter: ContractEventFilter<TAbi, TEventName>,
+    config: ContractEventCollectorConfig = {}
+  ) {
+    const { onDecodeError, ...logConfig } = config;
+    this.onDecodeError = onDecodeError;
+
+    const eventNames =
+      filter.eventName === undefined
+        ? undefined
+        : Array.isArray(filter.eventName)
+          ? filter.eventName
+          : [filter.eventName];
+    const events = (filter.abi as readonly unknown[]).filter(
+      (item): item is AbiEvent =>
+        (item as AbiEvent).type === 'event' &&
+        (eventNames === undefined
+          ? !(item as AbiEvent).anonymous
+          : eventNames.includes((item as AbiEvent).name as TEventName))
+    );
+
+    for (const name of eventNames ?? []) {
+      const event = events.find((event) => event.name === name);
+      if (!event) {
+        throw new Error(`Event ${name} not found in ABI`);
+      }
+      if (event.anonymous) {
+        throw new Error(`Anonymous event ${name} cannot be filtered by topic`);
+      }
+    }
+    if (events.length === 0) {
+      throw new Error('ABI has no events to collect');
+    }
+    this.events = new Map(events.map((event) => [toEventSelector(event), event]));
+
+    this.logs = new LogCollector(
+      client,
+      {
+        address: filter.address,
+        events,
+        fromBlock: filter.fromBlock,
+        toBlock: filter.toBlock,
+      },
+      logConfig
+    );
+  }
+
+  /**
+   * Create a new ContractEventCollector with a WebSocket transport
+   * @param url The WebSocket URL of the Ethereum node
+   * @param chain The chain to connect to
+   * @param filter The ABI and the events to collect
+   * @param config Configuration options
+   * @returns A new ContractEventCollector
+   */
+  static withWebSocket<
+    const TAbi extends Abi,
+    TEventName extends ContractEventName<TAbi> = ContractEventName<TAbi>,
+  >(
+    url: string,
+    chain: Chain,
+    filter: ContractEventFilter<TAbi, TEventName>,
+    config: ContractEventCollectorConfig = {}
+  ): ContractEventCollector<TAbi, TEventName> {
+    const client = createPublicClient({
+      transport: webSocket(url),
+      chain,
+    });
+    return new ContractEventCollector(client, filter, config);
+  }
+
+  /**
+   * Create a new ContractEventCollector with an HTTP transport
+   * @param url The HTTP URL of the Ethereum node
+   * @param chain The chain to connect to
+   * @param filter The ABI and the events to collect
+   * @param config Configuration options
+   * @returns A new ContractEventCollector
+   */
+  static withHttp<
+    const TAbi extends Abi,
+    TEventName extends ContractEventName<TAbi> = ContractEventName<TAbi>,
+  >(
+    url: string,
+    chain: Chain,
+    filter: ContractEventFilter<TAbi, TEventName>,
+    config: ContractEventCollectorConfig = {}
+  ): ContractEventCollector<TAbi, TEventName> {
+    const client = createPublicClient({
+      transport: http(url),
+      chain,
+    });
+    return new ContractEventCollector(client, filter, config);
+  }
+
+  name(): string {
+    return 'ContractEventCollector';
+  }
+
+  /**
+   * Get a collector for the reorgs this collector detects while its event stream runs
+   * @returns A collector of reorgs
+   */
+  reorgs(): Collector<Reorg> {
+    return this.logs.reorgs();
+  }
+
+  async getEventStream(): Promise<CollectorStream<ContractEvent<TAbi, TEventName>>> {
+    const stream = await this.logs.getEventStream();
+
+    return {
+      next: async (): Promise<IteratorResult<ContractEvent<TAbi, TEventName>>> => {
+        while (true) {
+          const result = await stream.next();
+          if (result.done) {
+            return result;
+          }
+
+          const event = this.decode(result.value);
+          if (event) {
+            return { done: false, value: event };
+          }
+        }
+      },
+
+      async return(): Promise<IteratorResult<ContractEvent<TAbi, TEventName>>> {
+        if (stream.return) {
+          await stream.return();
+        }
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  /**
+   * Decode a log with the collected event of its selector, reporting it if there is none or it
+   * cannot be decoded
+   * @param log The log
+   * @returns The decoded event, or undefined if the log cannot be decoded
+   */
+  private decode(log: Log): ContractEvent<TAbi, TEventName> | undefined {
+    try {
+      const [selector] = log.topics;
+      const event = selector && this.events.get(selector);
+      if (!event) {
+        throw new Error(
+          `Log with selector ${selector ?? 'none'} is not one of the collected events`
+        );
+      }
+      // A single event is decoded without comparing its selector, so the lookup above is needed
+      const { eventName, args } = decodeEventLog({
+        abi: [event],
+        data: log.data,
+        topics: log.topics,
+        strict: true,
+      });
+      // The event is one of TEventName, so its args have the types of the ABI
+      return { ...log, eventName, args } as ContractEvent<TAbi, TEventName>;
+    } catch (e) {
+      const error = e instanceof Error ? e : new Error(String(e));
+      if (this.onDecodeError) {
+        this.onDecodeError(error, log);
+      } else {
+        logger.warn('Skipping log that cannot be decoded', {
+          error,
+          address: log.address,
+          transactionHash: log.transactionHash,
+          logIndex: log.logIndex,
+        });
+      }
+      return undefined;
+    }
+  }
+}
@@ -0,0 +1,383 @@
+/**
+ * Enriched block collector
+ * Collects blocks together with their transaction receipts and, optionally, their call traces
+ */
+
+import {
+  http,
+  type Address,
+  type Block,
+  type Chain,
+  type Hash,
+  type Hex,
+  type PublicClient,
+  type RpcTransactionReceipt,
+  type TransactionReceipt,
+  createPublicClient,
+  formatTransactionReceipt,
+  hexToBigInt,
+  numberToHex,
+  webSocket,
+} from 'viem';
+import type { Collector, CollectorStream } from '../types';
+import { getLogger } from '../utils/logger';
+import {
+  type ClientSource,
+  isMethodNotSupportedError,
+  toPublicClient,
+} from '../utils/provider_pool';
+import { BlockCollector, type BlockCollectorConfig } from './block_collector';
+import type { Reorg } from './reorg';
+
+const logger = getLogger('collector.enriched_block');
+
+/**
+ * A call frame of the callTracer, with its subcalls
+ */
+export interface CallTrace {
+  /** Kind of call, e.g. CALL, DELEGATECALL, STATICCALL, CREATE */
+  type: string;
+  from: Address;
+  /** Callee, or the created contract */
+  to?: Address;
+  value?: bigint;
+  gas: bigint;
+  gasUsed: bigint;
+  input: Hex;
+  output?: Hex;
+  /** Set when the call failed */
+  error?: string;
+  revertReason?: string;
+  calls?: CallTrace[];
+}
+
+/**
+ * A block with the receipts of its transactions
+ */
+export interface EnrichedBlock {
+  block: Block;
+  /** Receipts in transaction order */
+  receipts: TransactionReceipt[];
+  /** Call traces in transaction order, only set when traces are enabled */
+  traces?: CallTrace[];
+}
+
+/**
+ * Configuration for the EnrichedBlockCollector
+ */
+export interface EnrichedBlockCollectorConfig extends BlockCollectorConfig {
+  /** Number of receipts fetched at once when the node has no eth_getBlockReceipts (default: 8) */
+  receiptConcurrency?: number;
+  /**
+   * Whether to trace the calls of each block with debug_traceBlockByHash (default: false)
+   * Blocks are traced by hash rather than by number, so that after a reorg the traces are those
+   * of the emitted block and not of the block that replaced it.
+   */
+  traces?: boolean;
+  /** Only trace the top call of each transaction (default: false) */
+  traceOnlyTopCall?: boolean;
+  /** Retries of a block whose receipts or traces cannot be fetched (default: 5) */
+  enrichRetries?: number;
+  /** Delay before the first retry in milliseconds, doubled for each retry up to 30s (default: 1000) */
+  enrichRetryDelayMs?: number;
+  /**
+   * Called with blocks that still cannot be enriched after the retries, e.g. because the node
+   * has pruned their state. These blocks are skipped. (default: unset, the event stream fails
+   * with the error so the engine can restart the collector)
+   */
+  onEnrichError?: (error: Error, block: Block) => void;
+}
+
+/**
+ * A raw call frame as returned by the node
+ */
+interface RpcCallTrace {
+  type: string;
+  from: Address;
+  to?: Address;
+  value?: Hex;
+  gas: Hex;
+  gasUsed: Hex;
+  input: Hex;
+  output?: Hex;
+  error?: string;
+  revertReason?: string;
+  calls?: RpcCallTrace[];
+}
+
+/**
+ * Loosely typed request, for methods viem has no schema for
+ */
+type RawRequest = (args: { method: string; params: unknown[] }) => Promise<unknown>;
+
+/**
+ * Sleep unless the signal is aborted first
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done, { once: true });
+  });
+}
+
+/**
+ * Convert a raw call frame, with its subcalls
+ * @param trace The raw call frame
+ * @returns The call frame with bigint amounts
+ */
+function formatCallTrace(trace: RpcCallTrace): CallTrace {
+  return {
+    type: trace.type,
+    from: trace.from,
+    to: trace.to,
+    value: trace.value === undefined ? undefined : hexToBigInt(trace.value),
+    gas: hexToBigInt(trace.gas),
+    gasUsed: hexToBigInt(trace.gasUsed),
+    input: trace.input,
+    output: trace.output,
+    error: trace.error,
+    revertReason: trace.revertReason,
+    calls: trace.calls?.map(formatCallTrace),
+  };
+}
+
+/**
+ * EnrichedBlockCollector - collects blocks with their receipts and call traces
+ *
+ * Blocks are collected by a BlockCollector, so polling, WebSocket subscriptions, gap filling and
+ * reorg handling work the same. Receipts are fetched with eth_getBlockReceipts, falling back to
+ * one eth_getTransactionReceipt per transaction on nodes that do not support it.
+ */
+export class EnrichedBlockCollector implements Collector<EnrichedBlock> {
+  private readonly client: PublicClient;
+  private readonly blocks: BlockCollector;
+  private readonly config: EnrichedBlockCollectorConfig;
+  private blockReceiptsSupported = true;
+
+  /**
+   * Create a new EnrichedBlockCollector
+   * @param client The Ethereum client to use, or a pool of endpoints
+   * @param config Configuration options
+   */
+  constructor(client: ClientSource, config: EnrichedBlockCollectorConfig = {}) {
+    const {
+      receiptConcurrency,
+      traces,
+      traceOnlyTopCall,
+      enrichRetries,
+      enrichRetryDelayMs,
+      onEnrichError,
+      ...blockConfig
+    } = config;
+    this.client = toPublicClient(client);
+    this.blocks = new BlockCollector(client, blockConfig);
+    this.config = {
+      receiptConcurrency: 8,
+      traces: false,
+      traceOnlyTopCall: false,
+      enrichRetries: 5,
+      enrichRetryDelayMs: 1000,
+      ...config,
+    };
+  }
+
+  /**
+   * Create a new EnrichedBlockCollector with a WebSocket transport
+   * @param url The WebSocket URL of the Ethereum node
+   * @param chain The chain to connect to
+   * @param config Configuration options
+   * @returns A new EnrichedBlockCollector
+   */
+  static withWebSocket(
+    url: string,
+    chain: Chain,
+    config: EnrichedBlockCollectorConfig = {}
+  ): EnrichedBlockCollector {
+    const client = createPublicClient({
+      transport: webSocket(url),
+      chain,
+    });
+    return new EnrichedBlockCollector(client, config);
+  }
+
+  /**
+   * Create a new EnrichedBlockCollector with an HTTP transport
+   * @param url The HTTP URL of the Ethereum node
+   * @param chain The chain to connect to
+   * @param config Configuration options
+   * @returns A new EnrichedBlockCollector
+   */
+  static withHttp(
+    url: string,
+    chain: Chain,
+    config: EnrichedBlockCollectorConfig = {}
+  ): EnrichedBlockCollector {
+    const client = createPublicClient({
+      transport: http(url),
+      chain,
+    });
+    return new EnrichedBlockCollector(client, config);
+  }
+
+  name(): string {
+    return 'EnrichedBlockCollector';
+  }
+
+  /**
+   * Get a collector for the reorgs this collector detects while its event stream runs
+   * @returns A collector of reorgs
+   */
+  reorgs(): Collector<Reorg> {
+    return this.blocks.reorgs();
+  }
+
+  async getEventStream(): Promise<CollectorStream<EnrichedBlock>> {
+    const stream = await this.blocks.getEventStream();
+    const closed = new AbortController();
+
+    return {
+      next: async (): Promise<IteratorResult<EnrichedBlock>> => {
+        while (!closed.signal.aborted) {
+          const result = await stream.next();
+          if (result.done) {
+            return result;
+          }
+
+          const enriched = await this.enrich(result.value, closed.signal);
+          if (enriched) {
+            return { done: false, value: enriched };
+          }
+        }
+        return { done: true, value: undefined };
+      },
+
+      async return(): Promise<IteratorResult<EnrichedBlock>> {
+        closed.abort();
+        if (stream.return) {
+          await stream.return();
+        }
+        return { done: true, value: undefined };
+      },
+    };
+  }
+
+  /**
+   * Fetch the receipts and traces of a block, retrying with exponential backoff
+   * @param block The block
+   * @param signal Aborted when the event stream is closed
+   * @returns The enriched block, or undefined if it was skipped or the stream was closed
+   * @throws The last error if the block cannot be enriched and there is no onEnrichError
+   */
+  private async enrich(block: Block, signal: AbortSignal): Promise<EnrichedBlock | undefined> {
+    const retries = this.config.enrichRetries ?? 5;
+    const retryDelayMs = this.config.enrichRetryDelayMs ?? 1000;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const [receipts, traces] = await Promise.all([
+          this.fetchReceipts(block),
+          this.config.traces ? this.fetchTraces(block) : undefined,
+        ]);
+        return traces ? { block, receipts, traces } : { block, receipts };
+      } catch (e) {
+        if (signal.aborted) {
+          return undefined;
+        }
+
+        const error = e instanceof Error ? e : new Error(String(e));
+        if (attempt < retries) {
+          const delayMs = Math.min(retryDelayMs * 2 ** attempt, 30000);
+          logger.warn(`Cannot enrich block ${block.number}, retrying in ${delayMs}ms`, { error });
+          await sleep(delayMs, signal);
+          if (signal.aborted) {
+            return undefined;
+          }
+          continue;
+        }
+
+        if (!this.config.onEnrichError) {
+          throw error;
+        }
+        this.config.onEnrichError(error, block);
+        return undefined;
+      }
+    }
+  }
+
+  /**
+   * Fetch the receipts of a block, in transaction order
+   * @param block The block
+   * @returns The receipts
+   */
+  private async fetchReceipts(block: Block): Promise<TransactionReceipt[]> {
+    if (block.transactions.length === 0) {
+      return [];
+    }
+
+    if (this.blockReceiptsSupported) {
+      try {
+        const receipts = (await (this.client.request as RawRequest)({
+          method: 'eth_getBlockReceipts',
+          params: [block.hash ?? numberToHex(block.number as bigint)],
+        })) as RpcTransactionReceipt[] | null;
+        if (receipts) {
+          if (receipts.length !== block.transactions.length) {
+            throw new Error(
+              `Got ${receipts.length} receipts for ${block.transactions.length} transactions`
+            );
+          }
+          return receipts.map((receipt) => formatTransactionReceipt(receipt));
+        }
+      } catch (error) {
+        if (!isMethodNotSupportedError(error)) {
+          throw error;
+        }
+        logger.info('eth_getBlockReceipts is not supported, fetching receipts per transaction');
+        this.blockReceiptsSupported = false;
+      }
+    }
+
+    const hashes = block.transactions.map((tx) => (typeof tx === 'string' ? tx : tx.hash));
+    const concurrency = Math.max(1, this.config.receiptConcurrency ?? 8);
+    const receipts: TransactionReceipt[] = [];
+    for (let start = 0; start < hashes.length; start += concurrency) {
+      const batch = await Promise.all(
+        hashes
+          .slice(start, start + concurrency)
+          .map((hash: Hash) => this.client.getTransactionReceipt({ hash }))
+      );
+      receipts.push(...batch);
+    }
+    return receipts;
+  }
+
+  /**
+   * Trace the calls of a block with the callTracer, in transaction order
+   * The block is traced by hash, so the traces belong to the block even if a reorg replaced it
+   * @param block The block
+   * @returns The call trace of each transaction
+   */
+  private async fetchTraces(block: Block): Promise<CallTrace[]> {
+    const results = (await (this.client.request as RawRequest)({
+      method: 'debug_traceBlockByHash',
+      params: [
+        block.hash as Hash,
+        { tracer: 'callTracer', tracerConfig: { onlyTopCall: this.config.traceOnlyTopCall } },
+      ],
+    })) as { txHash?: Hash; result?: RpcCallTrace; error?: string }[];
+
+    return results.map((item, index) => {
+      if (!item.result) {
+        throw new Error(
+          `Trace of transaction ${item.txHash ?? index} failed: ${item.error ?? 'no result'}`
+        );
+      }
+      return formatCallTrace(item.result);
+    });
+  }
+}
@@ -6,5 +6,9 @@
 // Export the collectors
 export * from './interval_collector';
 export * from './block_collector';
+export * from './enriched_block_collector';
 export * from './log_collector';
+export * from './contract_event_collector';
 export * from './mempool_collector';
+export * from './journal_collector';
+export * from './reorg';
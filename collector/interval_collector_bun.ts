@@ -5,7 +5,9 @@
 
 import { join } from 'node:path';
 import type { Collector, CollectorStream } from '../types';
-import { logger } from '../utils/logger';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger('collector.interval_bun');
 
 /**
  * IntervalCollectorBun - emits events at regular intervals using a separate process
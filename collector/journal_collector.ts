@@ -0,0 +1,190 @@
+/**
+ * Journal collectors
+ * Record the events of a collector to a file and replay them, e.g. to backtest strategies
+ */
+
+import { createReadStream } from 'node:fs';
+import { type FileHandle, open } from 'node:fs/promises';
+import { createInterface } from 'node:readline';
+import type { Collector, CollectorStream } from '../types';
+import { parseWithBigInt, stringifyWithBigInt } from '../utils/json';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger('collector.journal');
+
+/**
+ * A line of a journal file
+ * Events are serialized as JSON with bigints encoded as strings like "123n". Other values that
+ * JSON cannot represent, like Date, are replayed in their JSON form.
+ */
+export interface JournalEntry<E> {
+  /** Time the event was emitted, in milliseconds since the epoch */
+  time: number;
+  /** The event */
+  event: E;
+}
+
+/**
+ * JournalingCollector - appends every event of another collector to a journal file
+ * Each line of the file is a JournalEntry. Events are written before they are emitted, so a
+ * journal never misses an event a strategy has seen.
+ */
+export class JournalingCollector<E> implements Collector<E> {
+  private readonly inner: Collector<E>;
+  private readonly path: string;
+
+  /**
+   * Create a new JournalingCollector
+   * @param inner The collector to record
+   * @param path Path of the journal file, appended to if it exists
+   */
+  constructor(inner: Collector<E>, path: string) {
+    this.inner = inner;
+    this.path = path;
+  }
+
+  name(): string {
+    return this.inner.name();
+  }
+
+  async getEventStream(): Promise<CollectorStream<E>> {
+    const stream = await this.inner.getEventStream();
+    let file: FileHandle | undefined;
+    try {
+      file = await open(this.path, 'a');
+    } catch (e) {
+      // Nobody else holds the inner stream to close it
+      await stream.return?.();
+      throw e;
+    }
+    const path = this.path;
+
+    const close = async () => {
+      const handle = file;
+      file = undefined;
+      await handle?.close();
+    };
+
+    return {
+      async next(): Promise<IteratorResult<E>> {
+        const result = await stream.next();
+        if (result.done) {
+          await close();
+          return result;
+        }
+
+        if (file) {
+          const entry: JournalEntry<E> = { time: Date.now(), event: result.value };
+          await file.write(`${stringifyWithBigInt(entry)}\n`);
+        } else {
+          logger.warn(`Journal ${path} is closed, event not recorded`);
+        }
+        return result;
+      },
+
+      async return(): Promise<IteratorResult<E>> {
+        await close();
+        if (stream.return) {
+          return stream.return();
+        }
+        return { done: true, value: undefined };
+      },
+    };
+  }
+}
+
+/**
+ * Options for the replay collector
+ */
+export interface ReplayCollectorOptions {
+  /**
+   * Playback speed relative to the recording (default: 1, recorded speed)
+   * 10 replays ten times faster, Infinity as fast as the engine consumes events.
+   */
+  speed?: number;
+  /** Name of the collector (default: ReplayCollector) */
+  name?: string;
+}
+
+/**
+ * ReplayCollector - emits the events of a journal file, keeping their recorded spacing
+ * The stream ends after the last event, and every call to getEventStream() starts from the top.
+ */
+export class ReplayCollector<E> implements Collector<E> {
+  private readonly path: string;
+  private readonly speed: number;
+  private readonly collectorName: string;
+
+  /**
+   * Create a new ReplayCollector
+   * @param path Path of a journal written by JournalingCollector
+   * @param options Options for the replay
+   */
+  constructor(path: string, options: ReplayCollectorOptions = {}) {
+    if (options.speed !== undefined && !(options.speed > 0)) {
+      throw new Error(`Invalid replay speed: ${options.speed}`);
+    }
+
+    this.path = path;
+    this.speed = options.speed ?? 1;
+    this.collectorName = options.name ?? 'ReplayCollector';
+  }
+
+  name(): string {
+    return this.collectorName;
+  }
+
+  async getEventStream(): Promise<CollectorStream<E>> {
+    const input = createReadStream(this.path, { encoding: 'utf8' });
+    const lines = createInterface({ input, crlfDelay: Number.POSITIVE_INFINITY });
+    const iterator = lines[Symbol.asyncIterator]();
+    const speed = this.speed;
+    const path = this.path;
+    let lineNumber = 0;
+    let previousTime: number | undefined;
+
+    const close = () => {
+      lines.close();
+      input.destroy();
+    };
+
+    return {
+      async next(): Promise<IteratorResult<E>> {
+        while (true) {
+          const line = await iterator.next();
+          if (line.done) {
+            close();
+            return { done: true, value: undefined };
+          }
+
+          lineNumber++;
+          if (line.value.trim() === '') continue;
+
+          let entry: JournalEntry<E>;
+          try {
+            entry = parseWithBigInt<JournalEntry<E>>(line.value);
+          } catch (e) {
+            close();
+            throw new Error(`Invalid journal entry at ${path}:${lineNumber}`, { cause: e });
+          }
+
+          // Keep the recorded spacing between events, scaled by the speed
+          if (previousTime !== undefined && Number.isFinite(speed)) {
+            const delayMs = (entry.time - previousTime) / speed;
+            if (delayMs > 0) {
+              await new Promise((resolve) => setTimeout(resolve, delayMs));
+            }
+          }
+          previousTime = entry.time;
+
+          return { done: false, value: entry.event };
+        }
+      },
+
+      async return(): Promise<IteratorResult<E>> {
+        close();
+        return { done: true, value: undefined };
+      },
+    };
+  }
+}
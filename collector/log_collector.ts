@@ -5,16 +5,33 @@
 
 import {
   http,
+  type AbiEvent,
   type Address,
   type Chain,
   type Hash,
   type Log,
   type PublicClient,
+  type RpcLog,
+  type WebSocketTransport,
   createPublicClient,
+  formatLog,
+  numberToHex,
+  toEventSelector,
   webSocket,
 } from 'viem';
 import type { Collector, CollectorStream } from '../types';
-import { logger } from '../utils/logger';
+import { BroadcastChannel } from '../utils/broadcast_channel';
+import type { CheckpointStore } from '../utils/checkpoint';
+import { getLogger } from '../utils/logger';
+import {
+  type ClientSource,
+  isMethodNotSupportedError,
+  isRangeTooLargeError,
+  toPublicClient,
+} from '../utils/provider_pool';
+import { type Reorg, ReorgCollector, ReorgDetector } from './reorg';
+
+const logger = getLogger('collector.log');
 
 /**
  * Filter for logs
@@ -22,7 +39,14 @@ import { logger } from '../utils/logger';
 export interface LogFilter {
   address?: Address | Address[];
   topics?: (Hash | Hash[] | null)[];
+  /**
+   * Events to collect, matched on their selectors in place of topics[0]; lets a WebSocket
+   * subscription filter on the node, which it can only do by event
+   */
+  events?: AbiEvent[];
+  /** Backfill from this block before collecting live logs */
   fromBlock?: bigint;
+  /** With fromBlock, end the stream after this block instead of switching to live logs */
   toBlock?: bigint;
 }
 
@@ -32,37 +56,251 @@ export interface LogFilter {
 export interface LogCollectorConfig {
   /** Polling interval in milliseconds (for HTTP transport) */
   pollingIntervalMs?: number;
-  /** Maximum queue size */
+  /** Maximum number of logs buffered before fetching pauses */
   maxQueueSize?: number;
-  /** Block range to fetch in each poll (for HTTP transport) */
+  /** Block range to fetch with each getLogs call */
   blockRange?: number;
+  /** Smallest block range to shrink to when the RPC rejects a range as too large (default: 1) */
+  minBlockRange?: number;
+  /**
+   * Store for the last fully emitted block; when set, the collector resumes after the stored
+   * block instead of at filter.fromBlock
+   */
+  checkpointStore?: CheckpointStore;
+  /** Key of the checkpoint in the store (default: LogCollector) */
+  checkpointKey?: string;
+  /** Number of recent blocks whose hashes and logs are kept to handle reorgs (default: 64) */
+  reorgWindow?: number;
+}
+
+/**
+ * A queued log, or a marker that every log up to a block has been queued
+ */
+type QueueItem = { log: Log } | { checkpoint: bigint };
+
+/**
+ * LogQueue - buffers logs for the event stream and reports checkpoints once the logs before them
+ * have been emitted
+ */
+class LogQueue {
+  private items: QueueItem[] = [];
+  private logCount = 0;
+  private resolvers: ((value: IteratorResult<Log>) => void)[] = [];
+  private spaceWaiters: (() => void)[] = [];
+  private closed = false;
+  private ending = false;
+
+  constructor(
+    private readonly maxSize: number,
+    private readonly onCheckpoint: (block: bigint) => void
+  ) {}
+
+  /**
+   * Whether the stream has been closed
+   */
+  isClosed(): boolean {
+    return this.closed;
+  }
+
+  /**
+   * Whether maxSize or more logs are buffered
+   */
+  isFull(): boolean {
+    return this.logCount >= this.maxSize;
+  }
+
+  /**
+   * Queue a log, handing it to a waiting reader right away if there is one
+   */
+  push(log: Log): void {
+    if (this.closed) return;
+
+    const resolve = this.resolvers.shift();
+    if (resolve) {
+      resolve({ done: false, value: log });
+    } else {
+      this.items.push({ log });
+      this.logCount++;
+    }
+  }
+
+  /**
+   * Mark every log up to a block as queued
+   */
+  checkpoint(block: bigint): void {
+    if (this.closed) return;
+
+    if (this.items.length === 0) {
+      this.onCheckpoint(block);
+    } else {
+      this.items.push({ checkpoint: block });
+    }
+  }
+
+  /**
+   * Wait until fewer than maxSize logs are buffered
+   */
+  async waitForSpace(): Promise<void> {
+    while (!this.closed && this.isFull()) {
+      await new Promise<void>((resolve) => this.spaceWaiters.push(resolve));
+    }
+  }
+
+  /**
+   * Get the next log, waiting for one if the queue is empty
+   */
+  next(): Promise<IteratorResult<Log>> {
+    while (!this.closed) {
+      const item = this.items.shift();
+      if (!item) {
+        if (this.ending) {
+          this.close();
+          break;
+        }
+        return new Promise((resolve) => this.resolvers.push(resolve));
+      }
+
+      if ('checkpoint' in item) {
+        this.onCheckpoint(item.checkpoint);
+        continue;
+      }
+
+      this.logCount--;
+      for (const wake of this.spaceWaiters.splice(0)) {
+        wake();
+      }
+      return Promise.resolve({ done: false, value: item.log });
+    }
+
+    return Promise.resolve({ done: true, value: undefined });
+  }
+
+  /**
+   * End the stream once the buffered logs have been read
+   */
+  end(): void {
+    this.ending = true;
+    if (this.items.length === 0) {
+      this.close();
+    }
+  }
+
+  /**
+   * End the stream, dropping buffered logs
+   */
+  close(): void {
+    this.closed = true;
+    this.items = [];
+    this.logCount = 0;
+    for (const resolve of this.resolvers.splice(0)) {
+      resolve({ done: true, value: undefined });
+    }
+    for (const wake of this.spaceWaiters.splice(0)) {
+      wake();
+    }
+  }
+}
+
+/**
+ * Check whether an RPC error means that a log filter expired or was never installed
+ */
+function isFilterNotFoundError(error: unknown): boolean {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    const { details } = current as Error & { details?: string };
+    if (/filter not found/i.test(current.message) || /filter not found/i.test(details ?? '')) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Check whether a log matches the topics of a filter
+ */
+function matchesTopics(log: Log, topics: LogFilter['topics']): boolean {
+  return (topics ?? []).every((topic, i) => {
+    if (topic === null) return true;
+    const logTopic = log.topics[i]?.toLowerCase();
+    const allowed = Array.isArray(topic) ? topic : [topic];
+    return allowed.some((hash) => hash.toLowerCase() === logTopic);
+  });
+}
+
+/**
+ * Sleep unless the signal is aborted first
+ */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const timer = setTimeout(done, ms);
+    function done() {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', done);
+      resolve();
+    }
+    signal.addEventListener('abort', done, { once: true });
+  });
 }
 
 /**
  * LogCollector - collects logs from an Ethereum node
+ *
+ * With filter.fromBlock, or a checkpoint in config.checkpointStore, the collector first pages
+ * through historical logs with getLogs and then switches to live logs without a gap.
+ *
+ * While collecting live logs, the collector checks the head of the chain for reorgs and publishes
+ * them to reorgs(). Logs of orphaned blocks are emitted again with removed set to true, followed
+ * by the logs of the new chain.
  */
 export class LogCollector implements Collector<Log> {
   private client: PublicClient;
   private filter: LogFilter;
   private config: LogCollectorConfig;
   private isWebSocket: boolean;
+  /** Last block whose logs were all emitted, where a restarted stream resumes */
   private lastProcessedBlock?: bigint;
+  /** Current getLogs range, shrunk when the RPC rejects a range */
+  private blockRange: number;
+  /** Number of successful getLogs calls since the range was last changed */
+  private rangeSuccesses = 0;
+  private checkpointWrites: Promise<void> = Promise.resolve();
+  private reorgDetector: ReorgDetector;
+  private reorgChannel = new BroadcastChannel<Reorg>(100);
+  /** Logs emitted for the blocks in the reorg window, to remove them after a reorg */
+  private recentLogs = new Map<bigint, Log[]>();
 
   /**
    * Create a new LogCollector
-   * @param client The Ethereum client to use
+   * @param client The Ethereum client to use, or a pool of endpoints
    * @param filter The filter to apply to logs
    * @param config Configuration options
    */
-  constructor(client: PublicClient, filter: LogFilter, config: LogCollectorConfig = {}) {
-    this.client = client;
-    this.filter = filter;
+  constructor(client: ClientSource, filter: LogFilter, config: LogCollectorConfig = {}) {
+    this.client = toPublicClient(client);
+    this.filter = filter.events
+      ? {
+          ...filter,
+          topics: [
+            filter.events.map((event) => toEventSelector(event)),
+            ...(filter.topics ?? []).slice(1),
+          ],
+        }
+      : filter;
     this.config = {
       pollingIntervalMs: 1000,
       maxQueueSize: 1000,
       blockRange: 100,
+      minBlockRange: 1,
+      checkpointKey: 'LogCollector',
+      reorgWindow: 64,
       ...config,
     };
+    this.blockRange = this.config.blockRange ?? 100;
+    this.reorgDetector = new ReorgDetector(async (blockNumber) => {
+      const block = await this.client.getBlock({ blockNumber });
+      return { number: blockNumber, hash: block.hash };
+    }, this.config.reorgWindow);
 
     // Determine if the client uses WebSocket transport
     // Check if the transport is a WebSocket transport
@@ -119,385 +357,627 @@ export class LogCollector implements Collector<Log> {
     return 'LogCollector';
   }
 
-  async getEventStream(): Promise<CollectorStream<Log>> {
-    // Create a queue to buffer logs
-    const queue: Log[] = [];
-    let resolvers: ((value: IteratorResult<Log>) => void)[] = [];
-    let done = false;
-    let cleanupFn: (() => void) | null = null;
+  /**
+   * Get a collector for the reorgs this collector detects while its event stream runs
+   * @returns A collector of reorgs
+   */
+  reorgs(): Collector<Reorg> {
+    return new ReorgCollector(this.reorgChannel, 'LogCollector.reorgs');
+  }
 
-    if (this.isWebSocket) {
-      // Use WebSocket subscription for real-time logs
-      logger.info('Using WebSocket subscription for logs');
+  async getEventStream(): Promise<CollectorStream<Log>> {
+    const queue = new LogQueue(this.config.maxQueueSize ?? 1000, (block) =>
+      this.saveCheckpoint(block)
+    );
+    const abortController = new AbortController();
+    const resumeAfter = await this.resumeBlock();
+
+    if (resumeAfter !== undefined) {
+      logger.info(`Backfilling logs from block ${resumeAfter + 1n}`);
+    }
 
-      let intervalId: NodeJS.Timeout | null = null;
-      let abortController = new AbortController();
-      let isPolling = false;
+    const run = async () => {
+      let lastBlock = resumeAfter;
+      if (lastBlock !== undefined) {
+        lastBlock = await this.backfill(queue, lastBlock, abortController.signal);
+      }
 
-      try {
-        // Create a filter ID for the logs
-        const filterId = await this.client.createEventFilter({
-          ...this.filter,
-        });
+      if (abortController.signal.aborted) return;
 
-        // Set up a polling mechanism for the filter
-        const pollFilterChanges = async () => {
-          // Skip if already polling or done
-          if (isPolling || done || abortController.signal.aborted) {
-            return;
-          }
-
-          isPolling = true;
+      if (this.filter.toBlock !== undefined) {
+        logger.info(`Backfill reached block ${this.filter.toBlock}, ending stream`);
+        queue.end();
+        return;
+      }
 
-          try {
-            // Check if we're done before making any API calls
-            if (done || abortController.signal.aborted) {
-              isPolling = false;
-              return;
-            }
+      if (this.isWebSocket) {
+        // Use WebSocket subscription for real-time logs
+        logger.info('Using WebSocket subscription for logs');
+        try {
+          const subscribedUntil = await this.subscribeLogs(
+            queue,
+            lastBlock,
+            abortController.signal
+          );
+          if (subscribedUntil === undefined) return;
+          lastBlock = subscribedUntil;
+        } catch (error) {
+          if (queue.isClosed()) return;
+          logger.error('Failed to set up WebSocket subscription', { error });
+        }
 
-            const logs = await this.client.getFilterChanges({ filter: filterId });
+        // Fall back to a log filter if the node does not support log subscriptions
+        logger.warn('Falling back to a log filter');
+        try {
+          await this.watchFilter(queue, lastBlock, abortController.signal);
+          return;
+        } catch (error) {
+          if (queue.isClosed()) return;
+          logger.error('Failed to set up log filter', { error });
+          // Fall back to polling if the filter fails
+          logger.warn('Falling back to polling for logs');
+        }
+      } else {
+        // Use polling for HTTP transport
+        logger.info('Using polling for logs');
+      }
 
-            // Check if we're done before processing logs
-            if (done || abortController.signal.aborted) {
-              isPolling = false;
-              return;
-            }
+      await this.poll(queue, lastBlock, abortController.signal);
+    };
 
-            for (const log of logs as Log[]) {
-              // Check if we're done before processing each log
-              if (done || abortController.signal.aborted) {
-                break;
-              }
-
-              if (resolvers.length > 0) {
-                // If there are waiting resolvers, resolve one with the log
-                const resolve = resolvers.shift();
-                if (resolve) {
-                  resolve({ done: false, value: log });
-                }
-              } else {
-                // Otherwise, add the log to the queue
-                queue.push(log);
-
-                // Limit queue size
-                if (queue.length > (this.config.maxQueueSize ?? 1000)) {
-                  queue.shift();
-                  logger.warn('LogCollector queue overflow, dropping oldest log');
-                }
-              }
-            }
-          } catch (error) {
-            if (done || abortController.signal.aborted) {
-              isPolling = false;
-              return;
-            }
+    run().catch((error) => {
+      if (!queue.isClosed()) {
+        logger.error('Error in LogCollector', { error });
+      }
+    });
 
-            logger.error(`Error polling filter changes: ${error}`);
-          } finally {
-            isPolling = false;
-          }
-        };
+    // Return an async iterator that yields logs
+    return {
+      next(): Promise<IteratorResult<Log>> {
+        return queue.next();
+      },
 
-        // Start the polling interval
-        intervalId = setInterval(pollFilterChanges, 1000);
+      // Clean up when the iterator is done
+      async return(): Promise<IteratorResult<Log>> {
+        logger.debug('Cleaning up LogCollector resources');
+        abortController.abort();
+        queue.close();
+        return { done: true, value: undefined };
+      },
+    };
+  }
 
-        // Function to clean up
-        cleanupFn = () => {
-          logger.debug('Cleaning up LogCollector WebSocket resources');
+  /**
+   * Get the block after which collection resumes: the stored checkpoint, the last block emitted
+   * by a previous stream, or the block before filter.fromBlock
+   */
+  private async resumeBlock(): Promise<bigint | undefined> {
+    const { checkpointStore, checkpointKey = 'LogCollector' } = this.config;
+    if (checkpointStore) {
+      const checkpoint = await checkpointStore.load(checkpointKey);
+      if (checkpoint !== undefined) {
+        return this.lastProcessedBlock !== undefined && this.lastProcessedBlock > checkpoint
+          ? this.lastProcessedBlock
+          : checkpoint;
+      }
+    }
 
-          if (intervalId) {
-            clearInterval(intervalId);
-            intervalId = null;
-          }
+    if (this.lastProcessedBlock !== undefined) {
+      return this.lastProcessedBlock;
+    }
+    return this.filter.fromBlock !== undefined ? this.filter.fromBlock - 1n : undefined;
+  }
 
-          // Abort any in-flight requests
-          abortController.abort();
+  /**
+   * Record that every log up to a block has been emitted
+   */
+  private saveCheckpoint(block: bigint): void {
+    if (block === this.lastProcessedBlock) {
+      return;
+    }
+    // Checkpoints only move back after a reorg
+    this.lastProcessedBlock = block;
+
+    const { checkpointStore, checkpointKey = 'LogCollector' } = this.config;
+    if (checkpointStore) {
+      this.checkpointWrites = this.checkpointWrites
+        .then(() => checkpointStore.save(checkpointKey, block))
+        .catch((error) => {
+          logger.error(`Failed to save checkpoint at block ${block}`, { error });
+        });
+    }
+  }
 
-          // Create a new abort controller for any future requests
-          abortController = new AbortController();
+  /**
+   * Page through historical logs until the head of the chain, or filter.toBlock
+   * @param queue The queue to push logs to
+   * @param from The last block already processed
+   * @param signal Aborted when the stream is closed
+   * @returns The last block fetched
+   */
+  private async backfill(queue: LogQueue, from: bigint, signal: AbortSignal): Promise<bigint> {
+    let lastBlock = from;
+    let consecutiveErrors = 0;
 
-          // Uninstall the filter
-          this.client.uninstallFilter({ filter: filterId }).catch((error) => {
-            logger.error(`Error uninstalling filter: ${error}`);
-          });
+    while (!signal.aborted) {
+      try {
+        const { toBlock } = this.filter;
+        const latestBlock = await this.client.getBlockNumber();
+        const head = toBlock !== undefined && toBlock < latestBlock ? toBlock : latestBlock;
+        if (lastBlock >= head) {
+          if (toBlock === undefined || lastBlock >= toBlock) {
+            return lastBlock;
+          }
+          // Wait for the chain to reach filter.toBlock
+          await sleep(this.config.pollingIntervalMs ?? 1000, signal);
+          continue;
+        }
 
-          // Mark as done
-          done = true;
+        while (lastBlock < head && !signal.aborted) {
+          // Apply backpressure instead of dropping logs
+          await queue.waitForSpace();
+          if (signal.aborted) break;
 
-          // Resolve any waiting resolvers with done
-          for (const resolver of resolvers) {
-            resolver({ done: true, value: undefined as unknown });
-          }
-          resolvers = [];
+          const range = await this.fetchLogs(lastBlock + 1n, head);
+          this.emitLogs(queue, range.logs, range.toBlock);
+          lastBlock = range.toBlock;
+          consecutiveErrors = 0;
 
-          // Clear the queue
-          queue.length = 0;
-        };
+          logger.debug(
+            `Backfilled logs up to block ${range.toBlock}, found ${range.logs.length} logs`
+          );
+        }
       } catch (error) {
-        logger.error(`Failed to set up WebSocket subscription: ${error}`);
-        // Fall back to polling if subscription fails
-        logger.warn('Falling back to polling for logs');
-        return this.getPollingEventStream();
+        if (signal.aborted) break;
+
+        consecutiveErrors++;
+        const delayMs = Math.min(1000 * 2 ** (consecutiveErrors - 1), 30000);
+        logger.error(`Error backfilling logs, retrying in ${delayMs}ms`, { error });
+        await sleep(delayMs, signal);
       }
-    } else {
-      // Use polling for HTTP transport
-      logger.info('Using polling for logs');
-      return this.getPollingEventStream();
     }
 
-    // Return an async iterator that yields logs
-    return {
-      async next(): Promise<IteratorResult<Log>> {
-        if (done) {
-          return { done: true, value: undefined as unknown };
-        }
+    return lastBlock;
+  }
 
-        if (queue.length > 0) {
-          // If there are logs in the queue, return one
-          const log = queue.shift();
-          if (log === undefined) {
-            // This should never happen, but we handle it just in case
-            return { done: true, value: undefined as unknown };
-          }
-          return { done: false, value: log };
-        }
+  /**
+   * Fetch logs for the blocks from fromBlock up to at most head, shrinking the range while the
+   * RPC rejects it as too large
+   * @returns The logs and the last block they cover
+   */
+  private async fetchLogs(
+    fromBlock: bigint,
+    head: bigint
+  ): Promise<{ logs: Log[]; toBlock: bigint }> {
+    const minBlockRange = Math.max(1, this.config.minBlockRange ?? 1);
+    const maxBlockRange = Math.max(minBlockRange, this.config.blockRange ?? 100);
+
+    while (true) {
+      const range = BigInt(this.blockRange);
+      const toBlock = head < fromBlock + range ? head : fromBlock + range - 1n;
 
-        // Otherwise, wait for a log
-        return new Promise<IteratorResult<Log>>((resolve) => {
-          resolvers.push(resolve);
+      try {
+        // getLogs only takes topics as events, so the raw filter is sent instead
+        const rpcLogs = await this.client.request({
+          method: 'eth_getLogs',
+          params: [
+            {
+              address: this.filter.address,
+              topics: this.filter.topics,
+              fromBlock: numberToHex(fromBlock),
+              toBlock: numberToHex(toBlock),
+            },
+          ],
         });
-      },
+        const logs = rpcLogs.map((log) => formatLog(log));
 
-      // Clean up when the iterator is done
-      async return(): Promise<IteratorResult<Log>> {
-        if (cleanupFn) {
-          cleanupFn();
+        // Grow the range again after a run of successes
+        if (this.blockRange < maxBlockRange && ++this.rangeSuccesses >= 5) {
+          this.blockRange = Math.min(this.blockRange * 2, maxBlockRange);
+          this.rangeSuccesses = 0;
         }
-        return { done: true, value: undefined as unknown };
-      },
-    };
+        return { logs, toBlock };
+      } catch (error) {
+        if (!isRangeTooLargeError(error) || this.blockRange <= minBlockRange) {
+          throw error;
+        }
+
+        this.blockRange = Math.max(Math.floor(this.blockRange / 2), minBlockRange);
+        this.rangeSuccesses = 0;
+        logger.warn(`getLogs range too large, shrinking to ${this.blockRange} blocks`);
+      }
+    }
   }
 
   /**
-   * Get an event stream using polling (for HTTP transport)
+   * Queue the logs of a range of blocks, remembering them in case of a reorg
+   * @param queue The queue to push logs to
+   * @param logs The logs of the range
+   * @param toBlock The last block of the range
    */
-  private async getPollingEventStream(): Promise<CollectorStream<Log>> {
-    // Create a queue to buffer logs
-    const queue: Log[] = [];
-    let resolvers: ((value: IteratorResult<Log>) => void)[] = [];
-    let done = false;
-    let intervalId: NodeJS.Timeout | null = null;
-    let abortController = new AbortController();
-
-    // Initialize the last processed block
-    if (!this.lastProcessedBlock) {
-      try {
-        const latestBlock = await this.client.getBlockNumber();
-        this.lastProcessedBlock = latestBlock;
-        logger.info(`Starting log collection from block ${this.lastProcessedBlock}`);
-      } catch (error) {
-        logger.error(`Failed to get latest block number: ${error}`);
-        this.lastProcessedBlock = BigInt(0);
+  private emitLogs(queue: LogQueue, logs: Log[], toBlock: bigint): void {
+    for (const log of logs) {
+      queue.push(log);
+
+      if (log.blockNumber === null || log.blockHash === null) continue;
+      this.reorgDetector.record({ number: log.blockNumber, hash: log.blockHash });
+      const blockLogs = this.recentLogs.get(log.blockNumber);
+      if (blockLogs) {
+        blockLogs.push(log);
+      } else {
+        this.recentLogs.set(log.blockNumber, [log]);
       }
     }
+    queue.checkpoint(toBlock);
 
-    // Create a polling mechanism for logs with exponential backoff
-    let currentInterval = this.config.pollingIntervalMs ?? 1000;
-    let consecutiveErrors = 0;
-    let isPolling = false; // Flag to prevent concurrent polling
-
-    const pollLogs = async () => {
-      // Skip if already polling or done
-      if (isPolling || done || abortController.signal.aborted) {
-        return;
+    const oldest = toBlock - BigInt(this.config.reorgWindow ?? 64);
+    for (const blockNumber of this.recentLogs.keys()) {
+      if (blockNumber <= oldest) {
+        this.recentLogs.delete(blockNumber);
       }
+    }
+  }
 
-      isPolling = true;
+  /**
+   * Check the head of the chain for a reorg, publishing any reorg found
+   * @returns The number of the head, and the common ancestor if there was a reorg
+   */
+  private async checkHead(): Promise<{ head: bigint; ancestor?: bigint }> {
+    const block = await this.client.getBlock();
+    const { reorg, ancestor } = await this.reorgDetector.check({
+      number: block.number,
+      hash: block.hash,
+      parentHash: block.parentHash,
+    });
+    if (reorg) {
+      this.reorgChannel.send(reorg);
+    }
+    return { head: block.number, ancestor };
+  }
 
-      try {
-        // Check if we're done before making any API calls
-        if (done || abortController.signal.aborted) {
-          isPolling = false;
-          return;
-        }
+  /**
+   * Emit the logs of the blocks after a common ancestor again as removed, newest first, and move
+   * the checkpoint back to the ancestor
+   * @param queue The queue to push logs to
+   * @param ancestor The last block both chains have in common
+   */
+  private unwindLogs(queue: LogQueue, ancestor: bigint): void {
+    const orphaned = [...this.recentLogs.keys()]
+      .filter((blockNumber) => blockNumber > ancestor)
+      .sort((a, b) => (a < b ? 1 : a > b ? -1 : 0));
+
+    let removed = 0;
+    for (const blockNumber of orphaned) {
+      const logs = this.recentLogs.get(blockNumber) ?? [];
+      for (const log of [...logs].reverse()) {
+        queue.push({ ...log, removed: true });
+        removed++;
+      }
+      this.recentLogs.delete(blockNumber);
+    }
+    queue.checkpoint(ancestor);
 
-        // Get the latest block number
-        const latestBlock = await this.client.getBlockNumber();
+    logger.info(`Removed ${removed} logs of orphaned blocks after block ${ancestor}`);
+  }
 
-        // Skip if no new blocks
-        if (this.lastProcessedBlock !== undefined && latestBlock <= this.lastProcessedBlock) {
-          isPolling = false;
+  /**
+   * Collect live logs from an eth_subscribe logs subscription, catching up on logs between the
+   * backfill and the subscription with getLogs
+   * The node can only filter a subscription by address and event, so other topics are matched
+   * here. While the queue is full the subscription is paused, and the logs it missed are fetched
+   * once there is space again. A subscription that fails is set up again, repeating the logs of
+   * the last block, unless the node reports that it does not support subscriptions.
+   * @param queue The queue to push logs to
+   * @param from The last block already processed, if backfilled
+   * @param signal Aborted when the stream is closed
+   * @returns The block to resume after if the node does not support log subscriptions, so the
+   * caller can fall back to another source; undefined once the stream is closed
+   */
+  private async subscribeLogs(
+    queue: LogQueue,
+    from: bigint | undefined,
+    signal: AbortSignal
+  ): Promise<bigint | undefined> {
+    // Only called on a WebSocket transport
+    const client = this.client as PublicClient<WebSocketTransport>;
+    const maxQueueSize = this.config.maxQueueSize ?? 1000;
+    let lastBlock = from ?? (await this.client.getBlockNumber());
+    let failures = 0;
+
+    while (!signal.aborted) {
+      // Logs that arrive while catching up are held back until the catch-up is done
+      let pending: Log[] | undefined = [];
+      let caughtUp = lastBlock;
+      let currentBlock = lastBlock;
+      const stopped = new AbortController();
+      let failure: Error | undefined;
+      let paused = false;
+      let overflowed = false;
+
+      const push = (log: Log) => {
+        // Logs arrive in block order, so the current block is complete and the subscription can
+        // pause before the next one
+        if (queue.isFull() && log.blockNumber !== null && log.blockNumber > currentBlock) {
+          paused = true;
+          stopped.abort();
           return;
         }
+        currentBlock = this.pushLiveLog(queue, log, caughtUp, currentBlock);
+      };
+
+      const unwatch = client.watchEvent({
+        address: this.filter.address,
+        events: this.filter.events,
+        poll: false,
+        onLogs: (logs) => {
+          for (const log of logs as Log[]) {
+            if (signal.aborted || stopped.signal.aborted) return;
+            failures = 0;
+            if (!matchesTopics(log, this.filter.topics)) continue;
+
+            if (!pending) {
+              push(log);
+            } else if (pending.length < maxQueueSize) {
+              pending.push(log);
+            } else {
+              overflowed = true;
+              stopped.abort();
+            }
+          }
+        },
+        onError: (error) => {
+          failure = error;
+          stopped.abort();
+        },
+      });
 
-        // Calculate the range to fetch
-        // Don't fetch more than blockRange blocks at once to avoid timeouts
-        // At this point, we know lastProcessedBlock is defined because we checked above
-        const fromBlock = (this.lastProcessedBlock ?? BigInt(0)) + BigInt(1);
-        const blockRange = this.config.blockRange ?? 100;
-        const toBlock =
-          latestBlock < fromBlock + BigInt(blockRange)
-            ? latestBlock
-            : fromBlock + BigInt(blockRange - 1);
-
-        // Check again if we're done before making the getLogs call
-        if (done || abortController.signal.aborted) {
-          isPolling = false;
-          return;
+      try {
+        caughtUp = await this.backfill(queue, lastBlock, signal);
+        currentBlock = caughtUp;
+        const held = overflowed ? [] : pending;
+        pending = undefined;
+        for (const log of held) {
+          if (stopped.signal.aborted && !failure) break;
+          push(log);
         }
 
-        // Get logs for the block range
-        const logs = await this.client.getLogs({
-          ...this.filter,
-          fromBlock,
-          toBlock,
-        });
+        // The node reports the logs of orphaned blocks itself, the head is only checked to
+        // publish reorgs
+        const checkSignal = AbortSignal.any([signal, stopped.signal]);
+        while (!checkSignal.aborted) {
+          await sleep(this.config.pollingIntervalMs ?? 1000, checkSignal);
+          if (checkSignal.aborted) break;
 
-        // Update the last processed block
-        this.lastProcessedBlock = toBlock;
-
-        // Reset backoff on success
-        if (consecutiveErrors > 0) {
-          consecutiveErrors = 0;
-          currentInterval = this.config.pollingIntervalMs ?? 1000;
-          if (intervalId) {
-            clearInterval(intervalId);
-            intervalId = setInterval(pollLogs, currentInterval);
+          try {
+            await this.checkHead();
+          } catch (error) {
+            logger.error('Error checking head for reorgs', { error });
           }
         }
+      } finally {
+        unwatch();
+      }
 
-        // Check again if we're done before processing logs
-        if (done || abortController.signal.aborted) {
-          isPolling = false;
-          return;
-        }
+      if (signal.aborted) break;
 
-        // Check again if we're done before processing logs
-        if (done || abortController.signal.aborted) {
-          isPolling = false;
-          return;
-        }
+      if (paused) {
+        logger.warn('LogCollector queue is full, pausing the log subscription');
+        await queue.waitForSpace();
+        lastBlock = currentBlock;
+        continue;
+      }
 
-        // Process the logs
-        logger.debug(
-          `Processed logs from blocks ${fromBlock} to ${toBlock}, found ${logs.length} logs`
-        );
+      if (overflowed) {
+        logger.warn('Too many logs arrived while catching up, subscribing again');
+        lastBlock = caughtUp;
+        continue;
+      }
 
-        for (const log of logs) {
-          // Check if we're done before processing each log
-          if (done || abortController.signal.aborted) {
-            isPolling = false;
-            return;
-          }
+      // Logs of the last block may have been cut off, so fetch them again
+      lastBlock = currentBlock > caughtUp ? currentBlock - 1n : caughtUp;
 
-          if (resolvers.length > 0) {
-            // If there are waiting resolvers, resolve one with the log
-            const resolve = resolvers.shift();
-            if (resolve) {
-              resolve({ done: false, value: log });
-            }
-          } else {
-            // Otherwise, add the log to the queue
-            queue.push(log);
-
-            // Limit queue size
-            if (queue.length > (this.config.maxQueueSize ?? 1000)) {
-              queue.shift();
-              logger.warn('LogCollector queue overflow, dropping oldest log');
-            }
-          }
-        }
-      } catch (error) {
-        if (done || abortController.signal.aborted) {
-          isPolling = false;
-          return;
-        }
+      if (isMethodNotSupportedError(failure)) {
+        logger.error('The node does not support log subscriptions', { error: failure });
+        return lastBlock;
+      }
 
-        logger.error(`Error in LogCollector: ${error}`);
+      failures++;
+      if (failures > 1) {
+        const delayMs = Math.min(1000 * 2 ** (failures - 2), 30000);
+        logger.error(`Failed to resubscribe to logs, retrying in ${delayMs}ms`, { error: failure });
+        await sleep(delayMs, signal);
+      } else {
+        logger.warn('Log subscription failed, resubscribing', { error: failure });
+      }
+    }
 
-        // Implement exponential backoff
-        consecutiveErrors++;
-        if (consecutiveErrors > 3) {
-          const newInterval = Math.min(currentInterval * 2, 30000); // Max 30 seconds
-          if (newInterval !== currentInterval) {
-            currentInterval = newInterval;
-            if (intervalId) {
-              clearInterval(intervalId);
-              intervalId = setInterval(pollLogs, currentInterval);
+    return undefined;
+  }
+
+  /**
+   * Collect live logs from a node filter, catching up on logs between the backfill and the
+   * creation of the filter
+   * A filter the node no longer knows, e.g. because it expired, is created again.
+   * @param queue The queue to push logs to
+   * @param from The last block already processed, if backfilled
+   * @param signal Aborted when the stream is closed
+   */
+  private async watchFilter(
+    queue: LogQueue,
+    from: bigint | undefined,
+    signal: AbortSignal
+  ): Promise<void> {
+    // createEventFilter only takes topics as events, so the raw filter is installed instead
+    const createFilter = () =>
+      this.client.request({
+        method: 'eth_newFilter',
+        params: [{ address: this.filter.address, topics: this.filter.topics }],
+      });
+
+    let lastBlock = from ?? (await this.client.getBlockNumber());
+    // Create a filter ID for the logs
+    let filterId = await createFilter();
+
+    try {
+      // Logs of blocks up to the head at filter creation are fetched with getLogs
+      let caughtUp = await this.backfill(queue, lastBlock, signal);
+      let currentBlock = caughtUp;
+
+      while (!signal.aborted) {
+        await sleep(1000, signal);
+        await queue.waitForSpace();
+        if (signal.aborted) break;
+
+        let logs: Log[];
+        try {
+          // The node reports the logs of orphaned blocks itself, the head is only checked to
+          // publish reorgs
+          await this.checkHead();
+          const changes = await this.client.request({
+            method: 'eth_getFilterChanges',
+            params: [filterId],
+          });
+          logs = (changes as RpcLog[]).map((log) => formatLog(log));
+        } catch (error) {
+          if (signal.aborted) break;
+
+          if (isFilterNotFoundError(error)) {
+            // Filter changes arrive a block at a time, so the last block seen is complete
+            logger.warn('Log filter not found, creating it again');
+            try {
+              filterId = await createFilter();
+              lastBlock = currentBlock > caughtUp ? currentBlock : caughtUp;
+              caughtUp = await this.backfill(queue, lastBlock, signal);
+              currentBlock = caughtUp;
+            } catch (error) {
+              logger.error('Failed to create log filter', { error });
             }
-            logger.warn(`Increasing polling interval to ${currentInterval}ms due to errors`);
+            continue;
           }
-        }
-      } finally {
-        isPolling = false;
-      }
-    };
 
-    // Start the polling interval
-    intervalId = setInterval(pollLogs, currentInterval);
+          logger.error('Error polling filter changes', { error });
+          continue;
+        }
 
-    // Function to clean up
-    const cleanup = () => {
-      logger.debug('Cleaning up LogCollector polling resources');
-      if (intervalId) {
-        clearInterval(intervalId);
-        intervalId = null;
+        for (const log of logs) {
+          if (signal.aborted) break;
+          currentBlock = this.pushLiveLog(queue, log, caughtUp, currentBlock);
+        }
       }
+    } finally {
+      // Uninstall the filter
+      this.client.request({ method: 'eth_uninstallFilter', params: [filterId] }).catch((error) => {
+        logger.error('Error uninstalling filter', { error });
+      });
+    }
+  }
 
-      // Abort any in-flight requests
-      abortController.abort();
+  /**
+   * Queue a live log, checkpointing each block once a log of a later block arrives
+   * @param queue The queue to push logs to
+   * @param log The log
+   * @param caughtUp The last block whose logs were fetched with getLogs
+   * @param currentBlock The block of the latest live log
+   * @returns The block of the latest live log
+   */
+  private pushLiveLog(queue: LogQueue, log: Log, caughtUp: bigint, currentBlock: bigint): bigint {
+    if (log.blockNumber === null) return currentBlock;
+
+    if (log.removed) {
+      // Logs of the orphaned block are emitted again, so resume before it
+      const resumeBlock = log.blockNumber <= currentBlock ? log.blockNumber - 1n : currentBlock;
+      queue.checkpoint(resumeBlock);
+      queue.push(log);
+      return resumeBlock;
+    }
 
-      // Create a new abort controller for any future requests
-      abortController = new AbortController();
+    if (log.blockNumber <= caughtUp) return currentBlock;
 
-      // Mark as done
-      done = true;
+    // Logs arrive in block order, so a new block completes every block before it
+    if (log.blockNumber > currentBlock) {
+      queue.checkpoint(log.blockNumber - 1n);
+    }
+    queue.push(log);
+    return log.blockNumber;
+  }
 
-      // Resolve any waiting resolvers with done
-      for (const resolver of resolvers) {
-        resolver({ done: true, value: undefined as unknown });
+  /**
+   * Collect live logs by polling getLogs for new blocks
+   * @param queue The queue to push logs to
+   * @param from The last block already processed, if backfilled
+   * @param signal Aborted when the stream is closed
+   */
+  private async poll(
+    queue: LogQueue,
+    from: bigint | undefined,
+    signal: AbortSignal
+  ): Promise<void> {
+    // Initialize the last processed block, or leave it to the first successful poll
+    let lastBlock = from;
+    if (lastBlock === undefined) {
+      try {
+        lastBlock = await this.client.getBlockNumber();
+        logger.info(`Starting log collection from block ${lastBlock}`);
+      } catch (error) {
+        logger.error('Failed to get latest block number', { error });
       }
-      resolvers = [];
+    }
 
-      // Clear the queue
-      queue.length = 0;
+    // Poll for logs with exponential backoff
+    const pollingIntervalMs = this.config.pollingIntervalMs ?? 1000;
+    let currentInterval = pollingIntervalMs;
+    let consecutiveErrors = 0;
 
-      // Clear any pending API calls or timeouts
-      if (this.lastProcessedBlock) {
-        // Reset the last processed block to prevent further processing
-        this.lastProcessedBlock = undefined;
-      }
-    };
+    while (!signal.aborted) {
+      await sleep(currentInterval, signal);
+      await queue.waitForSpace();
+      if (signal.aborted) break;
 
-    // Return an async iterator that yields logs
-    return {
-      async next(): Promise<IteratorResult<Log>> {
-        if (done) {
-          return { done: true, value: undefined as unknown };
+      try {
+        // Get the latest block, unwinding the logs of orphaned blocks after a reorg
+        const { head, ancestor } = await this.checkHead();
+        if (lastBlock === undefined) {
+          lastBlock = head;
+          logger.info(`Starting log collection from block ${lastBlock}`);
+          continue;
+        }
+        if (ancestor !== undefined && ancestor < lastBlock) {
+          this.unwindLogs(queue, ancestor);
+          lastBlock = ancestor;
         }
 
-        if (queue.length > 0) {
-          // If there are logs in the queue, return one
-          const log = queue.shift();
-          if (log === undefined) {
-            // This should never happen, but we handle it just in case
-            return { done: true, value: undefined as unknown };
-          }
-          return { done: false, value: log };
+        // Skip if no new blocks
+        if (head <= lastBlock) {
+          continue;
         }
 
-        // Otherwise, wait for a log
-        return new Promise<IteratorResult<Log>>((resolve) => {
-          resolvers.push(resolve);
-        });
-      },
+        const { logs, toBlock } = await this.fetchLogs(lastBlock + 1n, head);
+        if (signal.aborted) break;
 
-      // Clean up when the iterator is done
-      async return(): Promise<IteratorResult<Log>> {
-        cleanup();
-        return { done: true, value: undefined as unknown };
-      },
-    };
+        logger.debug(
+          `Processed logs from blocks ${lastBlock + 1n} to ${toBlock}, found ${logs.length} logs`
+        );
+        this.emitLogs(queue, logs, toBlock);
+        lastBlock = toBlock;
+
+        // Reset backoff on success
+        consecutiveErrors = 0;
+        currentInterval = pollingIntervalMs;
+      } catch (error) {
+        if (signal.aborted) break;
+
+        logger.error('Error in LogCollector', { error });
+
+        // Implement exponential backoff
+        consecutiveErrors++;
+        if (consecutiveErrors > 3) {
+          const newInterval = Math.min(currentInterval * 2, 30000); // Max 30 seconds
+          if (newInterval !== currentInterval) {
+            currentInterval = newInterval;
+            logger.warn(`Increasing polling interval to ${currentInterval}ms due to errors`);
+          }
+        }
+      }
+    }
   }
 }
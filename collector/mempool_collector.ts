@@ -13,7 +13,10 @@ import {
   webSocket,
 } from 'viem';
 import type { Collector, CollectorStream } from '../types';
-import { logger } from '../utils/logger';
+import { getLogger } from '../utils/logger';
+import { type ClientSource, toPublicClient } from '../utils/provider_pool';
+
+const logger = getLogger('collector.mempool');
 
 /**
  * Configuration for the MempoolCollector
@@ -43,11 +46,11 @@ export class MempoolCollector implements Collector<Transaction> {
 
   /**
    * Create a new MempoolCollector
-   * @param client The Ethereum client to use
+   * @param client The Ethereum client to use, or a pool of endpoints
    * @param config Configuration options
    */
-  constructor(client: PublicClient, config: MempoolCollectorConfig = {}) {
-    this.client = client;
+  constructor(client: ClientSource, config: MempoolCollectorConfig = {}) {
+    this.client = toPublicClient(client);
     this.config = {
       pollingIntervalMs: 1000,
       maxQueueSize: 1000,
@@ -159,7 +162,7 @@ export class MempoolCollector implements Collector<Transaction> {
               return;
             }
 
-            logger.error(`Error polling filter changes: ${error}`);
+            logger.error('Error polling filter changes', { error });
           } finally {
             isPolling = false;
           }
@@ -185,7 +188,7 @@ export class MempoolCollector implements Collector<Transaction> {
 
           // Uninstall the filter
           this.client.uninstallFilter({ filter: filterId }).catch((error) => {
-            logger.error(`Error uninstalling filter: ${error}`);
+            logger.error('Error uninstalling filter', { error });
           });
 
           // Mark as done
@@ -205,7 +208,7 @@ export class MempoolCollector implements Collector<Transaction> {
           this.processedTxHashes.clear();
         };
       } catch (error) {
-        logger.error(`Failed to set up WebSocket subscription: ${error}`);
+        logger.error('Failed to set up WebSocket subscription', { error });
         // Fall back to polling if subscription fails
         logger.warn('Falling back to polling for pending transactions');
         return this.getPollingEventStream();
@@ -312,7 +315,7 @@ export class MempoolCollector implements Collector<Transaction> {
           return;
         }
 
-        logger.error(`Error in MempoolCollector: ${error}`);
+        logger.error('Error in MempoolCollector', { error });
 
         // Implement exponential backoff
         consecutiveErrors++;
@@ -472,7 +475,7 @@ export class MempoolCollector implements Collector<Transaction> {
         } catch (error) {
           // Transaction might have been removed from the mempool
           this.pendingTxHashes.delete(txHash);
-          logger.debug(`Error getting transaction ${txHash}: ${error}`);
+          logger.debug(`Error getting transaction ${txHash}`, { error });
           return null;
         }
       });
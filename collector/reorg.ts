@@ -0,0 +1,214 @@
+/**
+ * Reorg detection
+ * Track the hashes of recent blocks and detect when the chain replaces some of them
+ */
+
+import type { Hash } from 'viem';
+import type { Collector, CollectorStream } from '../types';
+import type { BroadcastChannel } from '../utils/broadcast_channel';
+import { getLogger } from '../utils/logger';
+
+const logger = getLogger('collector.reorg');
+
+/**
+ * A block identified by number and hash
+ */
+export interface BlockRef {
+  number: bigint;
+  hash: Hash;
+}
+
+/**
+ * A block head, linked to its parent
+ */
+export interface BlockHead extends BlockRef {
+  parentHash: Hash;
+}
+
+/**
+ * A chain reorganization
+ */
+export interface Reorg {
+  /** Number of blocks replaced, counted from the old head down to the common ancestor */
+  depth: number;
+  /** Hashes of the orphaned blocks that were seen, oldest first */
+  oldHashes: Hash[];
+  /** Head of the new chain */
+  newHead: BlockRef;
+}
+
+/**
+ * Result of checking a new head
+ */
+export interface ReorgCheck {
+  /** Whether the head extends or replaces the chain, false for a head that was already seen */
+  isNew: boolean;
+  /** The reorg the head revealed, if any */
+  reorg?: Reorg;
+  /** Last block both chains have in common, if there was a reorg */
+  ancestor?: bigint;
+}
+
+/**
+ * ReorgDetector - remembers the hashes of the last blocks and compares new heads against them
+ * Blocks that were never seen leave gaps in the window; a reorg is then only noticed at the next
+ * seen block, and only the seen blocks are reported as orphaned.
+ */
+export class ReorgDetector {
+  private readonly getBlock: (number: bigint) => Promise<BlockRef>;
+  private readonly windowSize: number;
+  private hashes = new Map<bigint, Hash>();
+  private tip?: bigint;
+
+  /**
+   * Create a new ReorgDetector
+   * @param getBlock Fetches the canonical block at a number, used to find the common ancestor
+   * @param windowSize Number of recent blocks to remember (default: 64)
+   */
+  constructor(getBlock: (number: bigint) => Promise<BlockRef>, windowSize = 64) {
+    if (!Number.isInteger(windowSize) || windowSize < 1) {
+      throw new Error(`Invalid reorg window: ${windowSize}`);
+    }
+
+    this.getBlock = getBlock;
+    this.windowSize = windowSize;
+  }
+
+  /**
+   * Get the highest block seen
+   */
+  latest(): bigint | undefined {
+    return this.tip;
+  }
+
+  /**
+   * Remember the hash of a block without checking it, e.g. from the blockHash of a log
+   * @param block The block
+   */
+  record(block: BlockRef): void {
+    this.hashes.set(block.number, block.hash);
+    if (this.tip === undefined || block.number > this.tip) {
+      this.tip = block.number;
+    }
+
+    const oldest = this.tip - BigInt(this.windowSize);
+    for (const number of this.hashes.keys()) {
+      if (number <= oldest) {
+        this.hashes.delete(number);
+      }
+    }
+  }
+
+  /**
+   * Check a new head against the remembered blocks and remember it
+   * @param head The new head
+   * @returns Whether the head is new, and the reorg it revealed
+   */
+  async check(head: BlockHead): Promise<ReorgCheck> {
+    const tip = this.tip;
+    if (tip === undefined) {
+      this.record(head);
+      return { isNew: true };
+    }
+
+    const known = this.hashes.get(head.number);
+    if (head.number < tip && known !== head.hash) {
+      // An older head from a lagging node is not evidence of a reorg, unless it contradicts a
+      // block that was seen
+      if (known === undefined) {
+        return { isNew: false };
+      }
+    } else if (known === head.hash) {
+      return { isNew: false };
+    }
+
+    const ancestor = await this.findAncestor(head);
+    const orphaned = [...this.hashes.entries()]
+      .filter(([number]) => number > ancestor)
+      .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+
+    if (orphaned.length === 0) {
+      this.record(head);
+      return { isNew: true };
+    }
+
+    for (const [number] of orphaned) {
+      this.hashes.delete(number);
+    }
+    this.tip = ancestor;
+    this.record(head);
+
+    const reorg: Reorg = {
+      depth: Number(tip - ancestor),
+      oldHashes: orphaned.map(([, hash]) => hash),
+      newHead: { number: head.number, hash: head.hash },
+    };
+    logger.warn(`Reorg of depth ${reorg.depth} detected, new head ${head.number}`, {
+      ancestor,
+      newHead: head.hash,
+    });
+    return { isNew: true, reorg, ancestor };
+  }
+
+  /**
+   * Walk down the remembered blocks until one matches the chain of the new head
+   * @param head The new head
+   * @returns The number of the common ancestor
+   */
+  private async findAncestor(head: BlockHead): Promise<bigint> {
+    const numbers = [...this.hashes.keys()]
+      .filter((number) => number < head.number)
+      .sort((a, b) => (a < b ? 1 : a > b ? -1 : 0));
+
+    for (const number of numbers) {
+      const hash =
+        number === head.number - 1n ? head.parentHash : (await this.getBlock(number)).hash;
+      if (this.hashes.get(number) === hash) {
+        return number;
+      }
+    }
+
+    // The chains may have split earlier, but older blocks are not known
+    const oldest = numbers.at(-1) ?? head.number;
+    logger.warn(`Reorg reaches past the oldest remembered block ${oldest}`);
+    return oldest - 1n;
+  }
+}
+
+/**
+ * ReorgCollector - emits the reorgs a block or log collector detects
+ * Reorgs are only detected while the event stream of that collector is running.
+ */
+export class ReorgCollector implements Collector<Reorg> {
+  private readonly channel: BroadcastChannel<Reorg>;
+  private readonly collectorName: string;
+
+  /**
+   * Create a new ReorgCollector
+   * @param channel The channel reorgs are published to
+   * @param name Name of the collector
+   */
+  constructor(channel: BroadcastChannel<Reorg>, name: string) {
+    this.channel = channel;
+    this.collectorName = name;
+  }
+
+  name(): string {
+    return this.collectorName;
+  }
+
+  async getEventStream(): Promise<CollectorStream<Reorg>> {
+    const receiver = this.channel.subscribe();
+
+    return {
+      next(): Promise<IteratorResult<Reorg>> {
+        return receiver.next();
+      },
+
+      async return(): Promise<IteratorResult<Reorg>> {
+        receiver.close();
+        return { done: true, value: undefined };
+      },
+    };
+  }
+}
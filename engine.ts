@@ -3,15 +3,170 @@
  * Improved version with better memory management and error handling
  */
 
-import { ActionChannelSubmitter } from './action_submitter';
-import type { Collector, Executor, Strategy } from './types';
+import type { Server } from 'bun';
+import {
+  ActionChannelSubmitter,
+  type ActionEnvelope,
+  ActionResultTracker,
+} from './action_submitter';
+import type { Collector, CollectorStream, Executor, Strategy } from './types';
+import { serveAdmin } from './utils/admin_server';
 import {
   BroadcastChannel,
   type BroadcastChannelConfig,
+  type BroadcastReceiver,
   ChannelError,
   ChannelErrorType,
 } from './utils/broadcast_channel';
-import { logger } from './utils/logger';
+import { type EventListener, TypedEventEmitter } from './utils/event_emitter';
+import { type Logger, getLogger } from './utils/logger';
+import {
+  type Counter,
+  type Gauge,
+  type Histogram,
+  type Labels,
+  MetricsRegistry,
+} from './utils/metrics';
+import { serveMetrics } from './utils/metrics_server';
+import { KeyedTaskPool } from './utils/task_pool';
+import { TimeoutError, withTimeout } from './utils/timeout';
+import type { SpanContext, Tracer } from './utils/tracing';
+
+const logger = getLogger('engine');
+
+/**
+ * Name of the stream used by collectors added without a stream name
+ */
+export const DEFAULT_STREAM = 'default';
+
+/**
+ * An event tagged with the name of the stream it was collected on
+ */
+export interface StreamEvent<E> {
+  /** Name of the stream the event belongs to */
+  stream: string;
+  /** The event emitted by the collector */
+  event: E;
+  /** Time the event was published on the channel, in milliseconds since the epoch */
+  collectedAt: number;
+  /** Span of the collector publishing the event, when tracing is enabled */
+  trace?: SpanContext;
+}
+
+/**
+ * When a collector is restarted after its event stream ends or fails
+ * - never: the collector stops for good
+ * - on-failure: the collector is restarted when getEventStream() or the stream throws
+ * - always: the collector is also restarted when its stream ends normally
+ */
+export type RestartMode = 'never' | 'on-failure' | 'always';
+
+/**
+ * Restart policy for collectors
+ */
+export interface RestartPolicy {
+  /** When to restart the collector */
+  mode: RestartMode;
+  /** Maximum number of consecutive restarts without receiving an event (default: unlimited) */
+  maxRestarts?: number;
+}
+
+/**
+ * Options for a collector added to the engine
+ */
+export interface CollectorOptions {
+  /** Restart policy for this collector, overriding EngineConfig.collectorRestartPolicy */
+  restart?: RestartPolicy;
+  /**
+   * Longest expected time between two events in milliseconds (default: unset, no watchdog)
+   * A stale event is emitted every time the collector stays silent for this long.
+   */
+  maxSilenceMs?: number;
+  /**
+   * Replace the event stream of a silent collector with a new one from getEventStream()
+   * (default: false). Resubscriptions count as restarts for RestartPolicy.maxRestarts.
+   */
+  resubscribeOnSilence?: boolean;
+}
+
+/**
+ * Options for a strategy added to the engine
+ */
+export interface StrategyOptions<E = unknown, K extends string = string> {
+  /** Names of the streams the strategy receives events from (default: all streams) */
+  subscribe?: K[];
+  /** Maximum number of events processed in parallel (default: 1) */
+  concurrency?: number;
+  /**
+   * Partition of an event, e.g. a pool address or a trading pair
+   * Events of the same partition are processed one after another, in order. Without a
+   * partition key, events processed in parallel may complete in any order.
+   */
+  partitionKey?: (event: E) => unknown;
+  /** Timeout for processing one event in milliseconds, overriding EngineConfig.processTimeoutMs */
+  timeoutMs?: number;
+}
+
+/**
+ * Processing lag of a strategy partition
+ */
+export interface PartitionLag {
+  /** Number of events of the partition received but not yet processed */
+  pending: number;
+  /** Time between collection and start of processing of the partition's latest event */
+  lagMs: number;
+}
+
+/**
+ * Options for an executor added to the engine
+ */
+export interface ExecutorOptions<A> {
+  /**
+   * Only actions matching this predicate are delivered to the executor
+   * Unmatched actions are never buffered in the executor's receiver
+   */
+  accepts?: (action: A) => boolean;
+  /** Maximum number of actions executed in parallel (default: 1) */
+  concurrency?: number;
+  /**
+   * Ordering of parallel executions (default: none)
+   * - none: actions may complete in any order
+   * - perKey: actions with the same key are executed one after another, in order
+   */
+  ordering?: 'none' | 'perKey';
+  /** Key of an action for perKey ordering, e.g. the account sending a transaction */
+  key?: (action: A) => unknown;
+  /** Timeout for executing one action in milliseconds, overriding EngineConfig.executeTimeoutMs */
+  timeoutMs?: number;
+}
+
+/**
+ * Create a route predicate matching actions by a discriminant property
+ * @param key The discriminant property
+ * @param values The values of the property the route accepts
+ * @returns A predicate for ExecutorOptions.accepts
+ */
+export function routeBy<A, K extends keyof A>(key: K, ...values: A[K][]): (action: A) => boolean {
+  return (action) => values.includes(action[key]);
+}
+
+/**
+ * How the engine shuts down
+ * - immediate: channels are closed right away and buffered events and actions are dropped
+ * - drain: collectors are stopped first, then strategies process their buffered events and
+ *   executors execute every pending action before the engine stops
+ */
+export type StopMode = 'immediate' | 'drain';
+
+/**
+ * Options for Engine.stop
+ */
+export interface StopOptions {
+  /** How to shut down (default: immediate) */
+  mode?: StopMode;
+  /** Maximum time to wait for the shutdown in milliseconds, after which it is forced */
+  timeoutMs?: number;
+}
 
 /**
  * Configuration for the Engine
@@ -33,31 +188,337 @@ export interface EngineConfig {
   maxBackoffMs?: number;
   /** Whether to stop the engine on critical errors */
   stopOnCriticalError?: boolean;
+  /** Default restart policy for collectors */
+  collectorRestartPolicy?: RestartPolicy;
+  /**
+   * Timeout for strategy.processEvent in milliseconds (default: 0, no timeout)
+   * A timed out call has its signal aborted and counts as an error of the strategy
+   */
+  processTimeoutMs?: number;
+  /**
+   * Timeout for executor.execute in milliseconds (default: 0, no timeout)
+   * A timed out call has its signal aborted and counts as an error of the executor
+   */
+  executeTimeoutMs?: number;
+  /** Registry the engine records its metrics in (default: a new registry per engine) */
+  metrics?: MetricsRegistry;
+  /**
+   * Name of the engine, the `engine` label of the gauges it samples. Engines sharing a registry
+   * need different names. (default: 'engine')
+   */
+  name?: string;
+  /**
+   * Tracer recording a span for every published event, processed event and executed action
+   * (default: unset, no tracing). Spans of actions are children of the event that caused them.
+   */
+  tracer?: Tracer;
+  /** Serve the metrics in the Prometheus text format on this port while running (default: 0, off) */
+  metricsPort?: number;
+  /**
+   * Serve the admin API (health, component state, pause, resume and stop) on this port while
+   * running (default: 0, off)
+   */
+  adminPort?: number;
+  /**
+   * Hostname the admin API binds to, e.g. 0.0.0.0 to reach it from other hosts
+   * (default: 127.0.0.1, only reachable locally)
+   */
+  adminHostname?: string;
   /** Whether to register a SIGINT handler to stop the engine gracefully */
   registerSigintHandler?: boolean;
   /** Timeout in milliseconds for graceful shutdown when SIGINT is received */
   sigintShutdownTimeoutMs?: number;
+  /** How to shut down when SIGINT is received */
+  sigintShutdownMode?: StopMode;
   /** Whether to exit the process after stopping the engine on SIGINT */
   exitProcessOnSigint?: boolean;
 }
 
+/**
+ * Kind of component managed by the engine
+ */
+export type ComponentKind = 'collector' | 'strategy' | 'executor';
+
+/**
+ * Status of a component registered with the engine
+ * A running component sleeping after too many consecutive errors is reported as backing-off
+ */
+export type ComponentStatus = 'running' | 'backing-off' | 'paused' | 'stopped';
+
+/**
+ * Payload shared by all component lifecycle events
+ */
+export interface ComponentEvent {
+  /** Name of the component, as returned by its name() method */
+  name: string;
+  /** Kind of the component */
+  kind: ComponentKind;
+}
+
+/**
+ * A component registered with the engine and its status
+ */
+export interface ComponentInfo extends ComponentEvent {
+  status: ComponentStatus;
+  /** Number of consecutive errors of the component */
+  consecutiveErrors: number;
+  /** Time the component last published or received an event or action, in ms since the epoch */
+  lastEventAt?: number;
+}
+
+/**
+ * Payload of the componentError event
+ */
+export interface ComponentErrorEvent extends ComponentEvent {
+  /** The error thrown by the component or its channel */
+  error: unknown;
+  /** Number of consecutive errors, including this one */
+  consecutiveErrors: number;
+}
+
+/**
+ * Payload of the backoff event
+ */
+export interface BackoffEvent extends ComponentEvent {
+  /** Time the component will sleep before continuing, in milliseconds */
+  backoffMs: number;
+  /** Number of consecutive errors that triggered the backoff */
+  consecutiveErrors: number;
+}
+
+/**
+ * Payload of the componentRestarted event
+ */
+export interface RestartEvent extends ComponentEvent {
+  /** Number of consecutive restarts, including this one */
+  attempt: number;
+  /** Time waited before restarting, in milliseconds */
+  delayMs: number;
+}
+
+/**
+ * Payload of the stale event
+ */
+export interface StaleEvent extends ComponentEvent {
+  /** Time since the collector's last event, or since its stream was opened, in milliseconds */
+  silentMs: number;
+  /** Whether the collector is resubscribing */
+  resubscribing: boolean;
+}
+
+/**
+ * Payload of the lagged event
+ */
+export interface LaggedEvent extends ComponentEvent {
+  /** Total number of messages dropped by the component's receiver */
+  lagCount: number;
+}
+
+/**
+ * Payload of the stopped event
+ */
+export interface EngineStoppedEvent {
+  /** Whether the shutdown timed out and resources were forcibly cleaned up */
+  forced: boolean;
+}
+
+/**
+ * Lifecycle events emitted by the Engine
+ */
+export interface EngineEvents {
+  componentStarted: ComponentEvent;
+  componentError: ComponentErrorEvent;
+  componentStopped: ComponentEvent;
+  componentRestarted: RestartEvent;
+  componentPaused: ComponentEvent;
+  componentResumed: ComponentEvent;
+  backoff: BackoffEvent;
+  lagged: LaggedEvent;
+  stale: StaleEvent;
+  stopped: EngineStoppedEvent;
+}
+
+/**
+ * Error bookkeeping for a running component loop
+ */
+interface ErrorState {
+  consecutiveErrors: number;
+  backoffMs: number;
+  backingOff: boolean;
+}
+
+/**
+ * Runtime state of a component started by the engine
+ */
+interface ComponentHandle {
+  component: ComponentEvent;
+  status: Exclude<ComponentStatus, 'backing-off'> | 'removed';
+  /** Error bookkeeping of the component's loop */
+  errors: ErrorState;
+  /** Time the component last published or received an event or action */
+  lastEventAt?: number;
+  /** Number of times the component was paused, so its loop can tell a pause from a shutdown */
+  pauses: number;
+  /** Aborted to interrupt a collector's stream when it is paused or removed, or the engine stops */
+  interrupt: AbortController;
+  /** Wakes up the component's loop while it waits for resume */
+  resume?: () => void;
+  /** Closes the receiver of a strategy or executor, optionally draining its buffer first */
+  unsubscribe?: (drain?: boolean) => void;
+  /** Number of messages dropped by the current receiver of a strategy or executor */
+  lagCount?: () => number;
+  /** The component's loop */
+  task?: Promise<void>;
+  /** Logger that tags every record with the component's kind and name */
+  log: Logger;
+}
+
+/**
+ * Metrics recorded by the engine
+ */
+interface EngineMetrics {
+  collectorEvents: Counter;
+  collectorRestarts: Counter;
+  collectorStalls: Counter;
+  strategyEvents: Counter;
+  strategyProcessing: Histogram;
+  executorActions: Counter;
+  executorExecution: Histogram;
+  componentErrors: Counter;
+  unroutedActions: Counter;
+  receiverLag: Gauge;
+  partitionPending: Gauge;
+  partitionLag: Gauge;
+}
+
+/**
+ * Register the engine metrics in a registry
+ * @param registry The registry to register the metrics in
+ */
+function createEngineMetrics(registry: MetricsRegistry): EngineMetrics {
+  return {
+    collectorEvents: registry.counter(
+      'frogberry_collector_events_total',
+      'Events published by each collector'
+    ),
+    collectorRestarts: registry.counter(
+      'frogberry_collector_restarts_total',
+      'Restarts of each collector'
+    ),
+    collectorStalls: registry.counter(
+      'frogberry_collector_stalls_total',
+      'Times each collector stayed silent for longer than its maxSilenceMs'
+    ),
+    strategyEvents: registry.counter(
+      'frogberry_strategy_events_total',
+      'Events processed by each strategy, by result'
+    ),
+    strategyProcessing: registry.histogram(
+      'frogberry_strategy_processing_seconds',
+      'Time each strategy spent processing an event'
+    ),
+    executorActions: registry.counter(
+      'frogberry_executor_actions_total',
+      'Actions executed by each executor, by result'
+    ),
+    executorExecution: registry.histogram(
+      'frogberry_executor_execution_seconds',
+      'Time each executor spent executing an action'
+    ),
+    componentErrors: registry.counter(
+      'frogberry_component_errors_total',
+      'Errors of each component, including timeouts and channel errors'
+    ),
+    unroutedActions: registry.counter(
+      'frogberry_unrouted_actions_total',
+      'Submitted actions that no executor accepted'
+    ),
+    receiverLag: registry.gauge(
+      'frogberry_receiver_lag',
+      'Messages dropped by the current receiver of each strategy and executor'
+    ),
+    partitionPending: registry.gauge(
+      'frogberry_strategy_partition_pending',
+      'Events received but not yet processed, per busy strategy partition'
+    ),
+    partitionLag: registry.gauge(
+      'frogberry_strategy_partition_lag_seconds',
+      'Time between collection and processing of the latest event, per busy strategy partition'
+    ),
+  };
+}
+
+/**
+ * Get the result label of a failed operation
+ * @param error The error the operation failed with
+ */
+function failureResult(error: unknown): string {
+  return error instanceof TimeoutError ? 'timeout' : 'error';
+}
+
+/**
+ * A collector registered with the engine
+ */
+interface CollectorEntry<E> {
+  stream: string;
+  collector: Collector<E>;
+  options: CollectorOptions;
+  handle?: ComponentHandle;
+}
+
+/**
+ * A strategy registered with the engine
+ */
+interface StrategyEntry<E, A> {
+  strategy: Strategy<E, A>;
+  options: StrategyOptions<E>;
+  handle?: ComponentHandle;
+}
+
+/**
+ * An executor registered with the engine
+ */
+interface ExecutorEntry<A> {
+  executor: Executor<A, unknown>;
+  options: ExecutorOptions<A>;
+  handle?: ComponentHandle;
+}
+
 /**
  * Engine class - coordinates collectors, strategies, and executors
+ *
+ * Events are published on named streams. `S` maps each stream name to the type of its
+ * events, so strategies subscribing to a subset of streams only receive (and only need to
+ * handle) those event types. Collectors and strategies added without a stream name use the
+ * default stream and all streams respectively.
  */
-export class Engine<E, A> {
+export class Engine<E, A, S extends Record<string, E> = Record<string, E>> {
   // Static registry of all running engines for global SIGINT handling
   private static runningEngines: Engine<unknown, unknown>[] = [];
   private static globalSigintHandlerRegistered = false;
 
-  private collectors: Array<Collector<E>> = [];
-  private strategies: Array<Strategy<E, A>> = [];
-  private executors: Array<Executor<A>> = [];
-  private config: Required<EngineConfig>;
+  private collectors: Array<CollectorEntry<E>> = [];
+  private strategies: Array<StrategyEntry<E, A>> = [];
+  private executors: Array<ExecutorEntry<A>> = [];
+  private config: Required<Omit<EngineConfig, 'tracer'>>;
+  private tracer?: Tracer;
   private running = false;
-  private tasks: Promise<void>[] = [];
-  private eventChannel?: BroadcastChannel<E>;
-  private actionChannel?: BroadcastChannel<A>;
+  private draining = false;
+  private eventChannel?: BroadcastChannel<StreamEvent<E>>;
+  private actionChannel?: BroadcastChannel<ActionEnvelope<A>>;
+  private actionResults = new ActionResultTracker();
   private _sigintHandlerRegistered = false;
+  private events = new TypedEventEmitter<EngineEvents>();
+  private unroutedActions = 0;
+  private partitionLags = new Map<string, Map<string, PartitionLag>>();
+  private abortController = new AbortController();
+  private metrics: EngineMetrics;
+  private metricsServer?: Server;
+  private adminServer?: Server;
+  /** Removes the hook sampling the gauges while the engine runs */
+  private removeCollectHook?: () => void;
+  /** Labels of the gauge samples set by the last sampling */
+  private gaugeSamples: Labels[] = [];
 
   /**
    * Register a global SIGINT handler that will stop all running engines
@@ -77,7 +538,7 @@ export class Engine<E, A> {
 
       // Stop all engines in parallel
       await Promise.all(engines.map((engine) => engine.stop(timeoutMs))).catch((err) => {
-        logger.error(`Error stopping engines: ${err}`);
+        logger.error('Error stopping engines', { error: err });
       });
 
       logger.info('All engines stopped, exiting process');
@@ -108,12 +569,24 @@ export class Engine<E, A> {
       initialBackoffMs: 100,
       maxBackoffMs: 30000,
       stopOnCriticalError: false,
+      collectorRestartPolicy: { mode: 'never' },
+      processTimeoutMs: 0,
+      executeTimeoutMs: 0,
       registerSigintHandler: false,
       sigintShutdownTimeoutMs: 5000,
+      sigintShutdownMode: 'immediate',
       exitProcessOnSigint: false,
+      metrics: new MetricsRegistry(),
+      name: 'engine',
+      metricsPort: 0,
+      adminPort: 0,
+      adminHostname: '127.0.0.1',
       ...config,
     };
 
+    this.tracer = config.tracer;
+    this.metrics = createEngineMetrics(this.config.metrics);
+
     // Register SIGINT handler if configured
     if (this.config.registerSigintHandler) {
       this.registerSigintHandler();
@@ -130,7 +603,10 @@ export class Engine<E, A> {
 
     process.on('SIGINT', async () => {
       logger.info('Received SIGINT, stopping engine...');
-      await this.stop(this.config.sigintShutdownTimeoutMs);
+      await this.stop({
+        mode: this.config.sigintShutdownMode,
+        timeoutMs: this.config.sigintShutdownTimeoutMs,
+      });
 
       // We don't call process.exit() here anymore, as we'll let the global SIGINT handler handle it
       if (this.config.exitProcessOnSigint) {
@@ -141,11 +617,43 @@ export class Engine<E, A> {
     this._sigintHandlerRegistered = true;
   }
 
+  /**
+   * Register a listener for an engine lifecycle event
+   * @param event The event name
+   * @param listener The listener to call with the event payload
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof EngineEvents>(event: K, listener: EventListener<EngineEvents[K]>): () => void {
+    return this.events.on(event, listener);
+  }
+
+  /**
+   * Register a listener that is called at most once
+   * @param event The event name
+   * @param listener The listener to call with the event payload
+   * @returns A function that removes the listener
+   */
+  once<K extends keyof EngineEvents>(
+    event: K,
+    listener: EventListener<EngineEvents[K]>
+  ): () => void {
+    return this.events.once(event, listener);
+  }
+
+  /**
+   * Remove a listener for an engine lifecycle event
+   * @param event The event name
+   * @param listener The listener to remove
+   */
+  off<K extends keyof EngineEvents>(event: K, listener: EventListener<EngineEvents[K]>): void {
+    this.events.off(event, listener);
+  }
+
   /**
    * Set the event channel capacity
    * @param capacity The capacity of the event channel
    */
-  withEventChannelCapacity(capacity: number): Engine<E, A> {
+  withEventChannelCapacity(capacity: number): Engine<E, A, S> {
     this.config.eventChannelCapacity = capacity;
     return this;
   }
@@ -154,7 +662,7 @@ export class Engine<E, A> {
    * Set the action channel capacity
    * @param capacity The capacity of the action channel
    */
-  withActionChannelCapacity(capacity: number): Engine<E, A> {
+  withActionChannelCapacity(capacity: number): Engine<E, A, S> {
     this.config.actionChannelCapacity = capacity;
     return this;
   }
@@ -163,7 +671,7 @@ export class Engine<E, A> {
    * Set the event channel configuration
    * @param config The configuration for the event channel
    */
-  withEventChannelConfig(config: BroadcastChannelConfig): Engine<E, A> {
+  withEventChannelConfig(config: BroadcastChannelConfig): Engine<E, A, S> {
     this.config.eventChannelConfig = {
       ...this.config.eventChannelConfig,
       ...config,
@@ -175,7 +683,7 @@ export class Engine<E, A> {
    * Set the action channel configuration
    * @param config The configuration for the action channel
    */
-  withActionChannelConfig(config: BroadcastChannelConfig): Engine<E, A> {
+  withActionChannelConfig(config: BroadcastChannelConfig): Engine<E, A, S> {
     this.config.actionChannelConfig = {
       ...this.config.actionChannelConfig,
       ...config,
@@ -187,7 +695,7 @@ export class Engine<E, A> {
    * Set whether to stop the engine on critical errors
    * @param stop Whether to stop the engine on critical errors
    */
-  withStopOnCriticalError(stop: boolean): Engine<E, A> {
+  withStopOnCriticalError(stop: boolean): Engine<E, A, S> {
     this.config.stopOnCriticalError = stop;
     return this;
   }
@@ -196,7 +704,7 @@ export class Engine<E, A> {
    * Enable or disable the SIGINT handler
    * @param enable Whether to enable the SIGINT handler
    */
-  withSigintHandler(enable = true): Engine<E, A> {
+  withSigintHandler(enable = true): Engine<E, A, S> {
     this.config.registerSigintHandler = enable;
 
     // Register or unregister the handler
@@ -211,7 +719,7 @@ export class Engine<E, A> {
    * Set the timeout for graceful shutdown when SIGINT is received
    * @param timeoutMs Timeout in milliseconds
    */
-  withSigintShutdownTimeout(timeoutMs: number): Engine<E, A> {
+  withSigintShutdownTimeout(timeoutMs: number): Engine<E, A, S> {
     this.config.sigintShutdownTimeoutMs = timeoutMs;
     return this;
   }
@@ -220,7 +728,7 @@ export class Engine<E, A> {
    * Enable or disable process exit after stopping the engine on SIGINT
    * @param enable Whether to exit the process after stopping the engine
    */
-  withExitProcessOnSigint(enable = true): Engine<E, A> {
+  withExitProcessOnSigint(enable = true): Engine<E, A, S> {
     this.config.exitProcessOnSigint = enable;
     return this;
   }
@@ -248,26 +756,219 @@ export class Engine<E, A> {
 
   /**
    * Add a collector to the engine
+   * @param collector The collector to add, publishing on the default stream
+   * @param options Options for the collector
+   */
+  addCollector(collector: Collector<E>, options?: CollectorOptions): void;
+  /**
+   * Add a collector publishing on a named stream
+   * @param stream The name of the stream
    * @param collector The collector to add
+   * @param options Options for the collector
    */
-  addCollector(collector: Collector<E>): void {
-    this.collectors.push(collector);
+  addCollector<K extends keyof S & string>(
+    stream: K,
+    collector: Collector<S[K]>,
+    options?: CollectorOptions
+  ): void;
+  addCollector(
+    streamOrCollector: string | Collector<E>,
+    collectorOrOptions?: Collector<E> | CollectorOptions,
+    options: CollectorOptions = {}
+  ): void {
+    const entry: CollectorEntry<E> =
+      typeof streamOrCollector === 'string'
+        ? { stream: streamOrCollector, collector: collectorOrOptions as Collector<E>, options }
+        : {
+            stream: DEFAULT_STREAM,
+            collector: streamOrCollector,
+            options: (collectorOrOptions as CollectorOptions | undefined) ?? {},
+          };
+    this.collectors.push(entry);
+
+    // Start right away when added to a running engine
+    if (this.running) {
+      this.startCollector(entry);
+    }
   }
 
   /**
-   * Add a strategy to the engine
+   * Add a strategy receiving events from a subset of streams
+   * @param strategy The strategy to add
+   * @param options Options for the strategy, including the streams to subscribe to
+   */
+  addStrategy<K extends keyof S & string>(
+    strategy: Strategy<S[K], A>,
+    options: StrategyOptions<S[K], K> & { subscribe: K[] }
+  ): void;
+  /**
+   * Add a strategy receiving events from all streams
    * @param strategy The strategy to add
+   * @param options Options for the strategy
    */
-  addStrategy(strategy: Strategy<E, A>): void {
-    this.strategies.push(strategy);
+  addStrategy(strategy: Strategy<E, A>, options?: StrategyOptions<E, never>): void;
+  addStrategy(strategy: Strategy<E, A>, options: StrategyOptions<never> = {}): void {
+    // The partition key only ever sees events of the streams the strategy subscribes to
+    const entry: StrategyEntry<E, A> = { strategy, options: options as StrategyOptions<E> };
+    this.strategies.push(entry);
+
+    // Start right away when added to a running engine, syncing state in the background
+    if (this.running) {
+      this.startStrategy(entry).catch((e) => {
+        logger.error('Error starting strategy', { strategy: strategy.name(), error: e });
+      });
+    }
   }
 
   /**
    * Add an executor to the engine
    * @param executor The executor to add
+   * @param options Options for the executor, including the actions it handles
+   */
+  addExecutor(executor: Executor<A, unknown>, options: ExecutorOptions<A> = {}): void {
+    if (options.ordering === 'perKey' && !options.key) {
+      throw new Error(`Executor ${executor.name()} uses perKey ordering without a key`);
+    }
+    const entry: ExecutorEntry<A> = { executor, options };
+    this.executors.push(entry);
+
+    // Start right away when added to a running engine
+    if (this.running) {
+      this.startExecutor(entry);
+    }
+  }
+
+  /**
+   * Pause every running component with the given name
+   * Paused strategies and executors are unsubscribed from their channel, dropping buffered
+   * messages; paused collectors close their event stream.
+   * @param name The name of the component
+   * @returns Whether a component was paused
+   */
+  pauseComponent(name: string): boolean {
+    const handles = this.findHandles(name).filter((handle) => handle.status === 'running');
+
+    for (const handle of handles) {
+      handle.status = 'paused';
+      handle.pauses++;
+      handle.interrupt.abort();
+      handle.unsubscribe?.();
+      handle.log.info('Paused');
+      this.events.emit('componentPaused', handle.component);
+    }
+
+    return handles.length > 0;
+  }
+
+  /**
+   * Resume every paused component with the given name
+   * Strategies and executors subscribe again, collectors request a new event stream.
+   * @param name The name of the component
+   * @returns Whether a component was resumed
+   */
+  resumeComponent(name: string): boolean {
+    if (!this.running) {
+      return false;
+    }
+
+    const handles = this.findHandles(name).filter((handle) => handle.status === 'paused');
+
+    for (const handle of handles) {
+      handle.status = 'running';
+      handle.interrupt = new AbortController();
+      this.wake(handle);
+      handle.log.info('Resumed');
+      this.events.emit('componentResumed', handle.component);
+    }
+
+    return handles.length > 0;
+  }
+
+  /**
+   * Remove every component with the given name
+   * Running strategies and executors first process the messages already buffered for them.
+   * @param name The name of the component
+   * @returns A promise that resolves to whether a component was removed, once it has stopped
    */
-  addExecutor(executor: Executor<A>): void {
-    this.executors.push(executor);
+  async removeComponent(name: string): Promise<boolean> {
+    const handles = this.findHandles(name);
+    const count = this.collectors.length + this.strategies.length + this.executors.length;
+
+    this.collectors = this.collectors.filter(({ collector }) => collector.name() !== name);
+    this.strategies = this.strategies.filter(({ strategy }) => strategy.name() !== name);
+    this.executors = this.executors.filter(({ executor }) => executor.name() !== name);
+
+    for (const handle of handles) {
+      const wasRunning = handle.status === 'running';
+      handle.status = 'removed';
+      handle.interrupt.abort();
+      handle.unsubscribe?.(wasRunning);
+      this.wake(handle);
+    }
+
+    await Promise.all(handles.map((handle) => handle.task));
+
+    return count !== this.collectors.length + this.strategies.length + this.executors.length;
+  }
+
+  /**
+   * List the components registered with the engine
+   */
+  listComponents(): ComponentInfo[] {
+    const info = (component: ComponentEvent, handle?: ComponentHandle): ComponentInfo => {
+      if (!handle || handle.status === 'removed') {
+        return { ...component, status: 'stopped', consecutiveErrors: 0 };
+      }
+
+      return {
+        ...component,
+        status:
+          handle.status === 'running' && handle.errors.backingOff ? 'backing-off' : handle.status,
+        consecutiveErrors: handle.errors.consecutiveErrors,
+        lastEventAt: handle.lastEventAt,
+      };
+    };
+
+    return [
+      ...this.collectors.map(({ collector, handle }) =>
+        info({ name: collector.name(), kind: 'collector' }, handle)
+      ),
+      ...this.strategies.map(({ strategy, handle }) =>
+        info({ name: strategy.name(), kind: 'strategy' }, handle)
+      ),
+      ...this.executors.map(({ executor, handle }) =>
+        info({ name: executor.name(), kind: 'executor' }, handle)
+      ),
+    ];
+  }
+
+  /**
+   * Get the number of submitted actions that no executor accepted
+   */
+  unroutedActionCount(): number {
+    return this.unroutedActions;
+  }
+
+  /**
+   * Get the registry the engine records its metrics in
+   */
+  metricsRegistry(): MetricsRegistry {
+    return this.config.metrics;
+  }
+
+  /**
+   * Get the processing lag of each busy partition of a running strategy
+   * Only strategies with a partition key report partitions; idle partitions are omitted.
+   * @param strategyName The name of the strategy
+   * @returns The lag of each partition, keyed by the stringified partition key
+   */
+  strategyPartitionLag(strategyName: string): Map<string, PartitionLag> {
+    const partitions = this.partitionLags.get(strategyName);
+    const lags = new Map<string, PartitionLag>();
+    for (const [partition, lag] of partitions ?? []) {
+      lags.set(partition, { ...lag });
+    }
+    return lags;
   }
 
   /**
@@ -285,29 +986,49 @@ export class Engine<E, A> {
 
     // Wait for all tasks to complete
     await Promise.all(tasks).catch((err) => {
-      logger.error(`Task terminated unexpectedly: ${err}`);
+      logger.error('Task terminated unexpectedly', { error: err });
     });
   }
 
   /**
    * Stop the engine
-   * @param timeoutMs Maximum time to wait for graceful shutdown in milliseconds
+   * @param options Options for the shutdown, or the timeout in milliseconds
    * @returns A promise that resolves when the engine has stopped
    */
-  async stop(timeoutMs = 5000): Promise<void> {
+  async stop(options: StopOptions | number = {}): Promise<void> {
     if (!this.running) {
       return;
     }
 
-    logger.info('Stopping engine...');
+    const { mode = 'immediate', timeoutMs = 5000 } =
+      typeof options === 'number' ? { timeoutMs: options } : options;
+
+    logger.info(`Stopping engine (${mode})...`);
 
     // Set running to false first to prevent new operations
     this.running = false;
+    this.draining = mode === 'drain';
+
+    // Interrupt collectors and wake up paused components so their loops can exit
+    for (const handle of this.handles()) {
+      if (handle.component.kind === 'collector') {
+        handle.interrupt.abort();
+      }
+      this.wake(handle);
+    }
+
+    if (mode === 'immediate') {
+      // Abort in-flight event processing and action execution
+      this.abortController.abort();
+    }
 
     // Create a promise that resolves after the timeout
+    let forced = false;
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
     const timeoutPromise = new Promise<void>((resolve) => {
-      setTimeout(() => {
+      timeoutId = setTimeout(() => {
         logger.warn(`Engine shutdown timed out after ${timeoutMs}ms, forcing shutdown`);
+        forced = true;
 
         // Force cleanup of any remaining resources
         this.forceCleanup();
@@ -316,8 +1037,32 @@ export class Engine<E, A> {
       }, timeoutMs);
     });
 
-    // Create a promise that resolves when all tasks have completed
-    const shutdownPromise = new Promise<void>((resolve) => {
+    const shutdownPromise = mode === 'drain' ? this.drain() : this.shutdownImmediately(timeoutMs);
+
+    // Wait for either the shutdown to complete or the timeout to expire
+    await Promise.race([shutdownPromise, timeoutPromise]);
+    clearTimeout(timeoutId);
+
+    // Ensure all resources are cleaned up
+    this.draining = false;
+    this.cleanupResources();
+    await this.tracer?.flush();
+
+    // Remove this engine from the static registry of running engines
+    const index = Engine.runningEngines.indexOf(this as unknown as Engine<unknown, unknown>);
+    if (index !== -1) {
+      Engine.runningEngines.splice(index, 1);
+    }
+
+    this.events.emit('stopped', { forced });
+  }
+
+  /**
+   * Close the channels, dropping buffered events and actions, and wait for the tasks to notice
+   * @param timeoutMs The timeout of the whole shutdown in milliseconds
+   */
+  private shutdownImmediately(timeoutMs: number): Promise<void> {
+    return new Promise<void>((resolve) => {
       // Close the channels to signal tasks to stop
       if (this.eventChannel) {
         this.eventChannel.close();
@@ -333,7 +1078,7 @@ export class Engine<E, A> {
         const taskTimeout = Math.min(timeoutMs / 2, 2000);
         Promise.race([
           Promise.all(
-            this.tasks.map((task) => {
+            this.allTasks().map((task) => {
               // Create a timeout for each task
               return Promise.race([task, new Promise((r) => setTimeout(r, taskTimeout))]);
             })
@@ -344,32 +1089,64 @@ export class Engine<E, A> {
             resolve();
           })
           .catch((e) => {
-            logger.error(`Error during engine shutdown: ${e}`);
+            logger.error('Error during engine shutdown', { error: e });
             resolve();
           });
       }, 100);
     });
+  }
 
-    // Wait for either the shutdown to complete or the timeout to expire
-    await Promise.race([shutdownPromise, timeoutPromise]);
+  /**
+   * Stop the components in pipeline order, letting each stage consume everything buffered
+   * by the previous one
+   */
+  private async drain(): Promise<void> {
+    await Promise.all(this.collectors.map(({ handle }) => handle?.task));
 
-    // Ensure all resources are cleaned up
-    this.cleanupResources();
+    logger.debug('Collectors stopped, draining strategies');
+    this.eventChannel?.close({ drain: true });
+    await Promise.all(this.strategies.map(({ handle }) => handle?.task));
 
-    // Remove this engine from the static registry of running engines
-    const index = Engine.runningEngines.indexOf(this as unknown as Engine<unknown, unknown>);
-    if (index !== -1) {
-      Engine.runningEngines.splice(index, 1);
-    }
+    logger.debug('Strategies drained, draining executors');
+    this.actionChannel?.close({ drain: true });
+    await Promise.all(this.executors.map(({ handle }) => handle?.task));
+  }
+
+  /**
+   * Get the runtime handles of all started components
+   */
+  private handles(): ComponentHandle[] {
+    return [...this.executors, ...this.strategies, ...this.collectors].flatMap(({ handle }) =>
+      handle ? [handle] : []
+    );
+  }
+
+  /**
+   * Get the runtime handles of the started components with the given name
+   * @param name The name of the component
+   */
+  private findHandles(name: string): ComponentHandle[] {
+    return this.handles().filter((handle) => handle.component.name === name);
+  }
+
+  /**
+   * Get the tasks of all started components
+   */
+  private allTasks(): Promise<void>[] {
+    return this.handles().flatMap(({ task }) => (task ? [task] : []));
   }
 
   /**
    * Clean up resources
    */
   private cleanupResources(): void {
+    this.stopServers();
+    this.removeCollectHook?.();
+    this.removeCollectHook = undefined;
+    this.removeGaugeSamples();
+    this.actionResults.rejectAll(ChannelError.closed());
     this.eventChannel = undefined;
     this.actionChannel = undefined;
-    this.tasks = [];
   }
 
   /**
@@ -377,6 +1154,12 @@ export class Engine<E, A> {
    * This is called when the shutdown times out
    */
   private forceCleanup(): void {
+    // Give up on draining and abort whatever is still in flight
+    this.draining = false;
+    this.abortController.abort();
+    this.eventChannel?.close();
+    this.actionChannel?.close();
+
     // Ensure all resources are cleaned up
     this.cleanupResources();
 
@@ -406,294 +1189,930 @@ export class Engine<E, A> {
       throw new Error('Engine is already running');
     }
 
+    // Start the servers first, so the engine does not count as running if a port is taken
+    try {
+      if (this.config.metricsPort > 0) {
+        this.metricsServer = serveMetrics(this.config.metrics, { port: this.config.metricsPort });
+      }
+
+      if (this.config.adminPort > 0) {
+        this.adminServer = serveAdmin(this, {
+          port: this.config.adminPort,
+          hostname: this.config.adminHostname,
+        });
+      }
+    } catch (e) {
+      this.stopServers();
+      throw e;
+    }
+
     this.running = true;
+    this.abortController = new AbortController();
+    this.removeCollectHook = this.config.metrics.onCollect(() => this.sampleMetrics());
 
     // Add this engine to the static registry of running engines
     Engine.runningEngines.push(this as unknown as Engine<unknown, unknown>);
 
+    // Warn about subscriptions to streams no collector publishes on
+    const streams = new Set(this.collectors.map(({ stream }) => stream));
+    for (const { strategy, options } of this.strategies) {
+      for (const stream of options.subscribe ?? []) {
+        if (!streams.has(stream)) {
+          logger.warn(`Strategy ${strategy.name()} subscribes to unknown stream '${stream}'`);
+        }
+      }
+    }
+
     // Create broadcast channels for events and actions
-    this.eventChannel = new BroadcastChannel<E>(
+    this.eventChannel = new BroadcastChannel<StreamEvent<E>>(
       this.config.eventChannelCapacity,
       this.config.eventChannelConfig
     );
 
-    this.actionChannel = new BroadcastChannel<A>(
+    this.actionChannel = new BroadcastChannel<ActionEnvelope<A>>(
       this.config.actionChannelCapacity,
       this.config.actionChannelConfig
     );
 
-    this.tasks = [];
-
     // Spawn executors
-    for (const executor of this.executors) {
-      const receiver = this.actionChannel.subscribe();
-
-      this.tasks.push(this.runExecutor(executor, receiver));
+    for (const entry of this.executors) {
+      this.startExecutor(entry);
     }
 
     // Spawn strategies
-    for (const strategy of this.strategies) {
-      const eventReceiver = this.eventChannel.subscribe();
-      const actionSubmitter = new ActionChannelSubmitter<A>(this.actionChannel);
+    for (const entry of this.strategies) {
+      await this.startStrategy(entry);
+    }
 
-      // Sync state if the strategy implements it
-      if (strategy.syncState) {
-        try {
-          await strategy.syncState(actionSubmitter);
-        } catch (e) {
-          throw new Error(`Failed to sync state for ${strategy.name()}: ${e}`);
-        }
+    // Spawn collectors
+    for (const entry of this.collectors) {
+      this.startCollector(entry);
+    }
+
+    return this.allTasks();
+  }
+
+  /**
+   * Stop the metrics and admin servers
+   */
+  private stopServers(): void {
+    this.metricsServer?.stop();
+    this.metricsServer = undefined;
+    this.adminServer?.stop();
+    this.adminServer = undefined;
+  }
+
+  /**
+   * Sample the gauges of the engine metrics, called right before they are exposed
+   */
+  private sampleMetrics(): void {
+    // Only busy partitions are reported, so drop the samples of partitions that went idle, and
+    // of removed components. Samples of other engines sharing the registry are left alone.
+    this.removeGaugeSamples();
+    const engine = this.config.name;
+
+    for (const { component, lagCount } of this.handles()) {
+      if (lagCount) {
+        const labels = { engine, kind: component.kind, component: component.name };
+        this.metrics.receiverLag.set(labels, lagCount());
+        this.gaugeSamples.push(labels);
       }
+    }
 
-      this.tasks.push(this.runStrategy(strategy, eventReceiver, actionSubmitter));
+    for (const [strategy, partitions] of this.partitionLags) {
+      for (const [partition, lag] of partitions) {
+        const labels = { engine, strategy, partition };
+        this.metrics.partitionPending.set(labels, lag.pending);
+        this.metrics.partitionLag.set(labels, lag.lagMs / 1000);
+        this.gaugeSamples.push(labels);
+      }
     }
+  }
 
-    // Spawn collectors
-    for (const collector of this.collectors) {
-      this.tasks.push(this.runCollector(collector));
+  /**
+   * Remove the gauge samples set by the last sampling
+   */
+  private removeGaugeSamples(): void {
+    for (const labels of this.gaugeSamples.splice(0)) {
+      this.metrics.receiverLag.remove(labels);
+      this.metrics.partitionPending.remove(labels);
+      this.metrics.partitionLag.remove(labels);
+    }
+  }
+
+  /**
+   * Create the runtime handle of a component
+   * @param component The component descriptor
+   */
+  private createHandle(component: ComponentEvent): ComponentHandle {
+    return {
+      component,
+      status: 'running',
+      errors: { consecutiveErrors: 0, backoffMs: this.config.initialBackoffMs, backingOff: false },
+      pauses: 0,
+      interrupt: new AbortController(),
+      log: logger.child({ kind: component.kind, component: component.name }),
+    };
+  }
+
+  /**
+   * Start an executor, subscribing it to the action channel
+   * @param entry The executor to start
+   */
+  private startExecutor(entry: ExecutorEntry<A>): void {
+    const { executor, options } = entry;
+    const channel = this.actionChannel;
+    if (!channel) {
+      throw new Error('Engine is not running');
     }
 
-    return this.tasks;
+    const handle = this.createHandle({ name: executor.name(), kind: 'executor' });
+    const accepts = options.accepts;
+    const subscribe = () => {
+      const receiver = channel.subscribe({
+        filter: accepts ? ({ action }) => accepts(action) : undefined,
+        onLag: (lagCount) => {
+          this.events.emit('lagged', { ...handle.component, lagCount });
+        },
+      });
+      handle.unsubscribe = (drain) => receiver.close(drain);
+      handle.lagCount = () => receiver.getLagCount();
+      return receiver;
+    };
+
+    entry.handle = handle;
+    handle.task = this.runExecutor(executor, handle, subscribe, options);
+  }
+
+  /**
+   * Start a strategy, subscribing it to the event channel and syncing its state
+   * @param entry The strategy to start
+   * @throws {Error} If the strategy fails to sync its state
+   */
+  private async startStrategy(entry: StrategyEntry<E, A>): Promise<void> {
+    const { strategy, options } = entry;
+    const eventChannel = this.eventChannel;
+    const actionChannel = this.actionChannel;
+    if (!eventChannel || !actionChannel) {
+      throw new Error('Engine is not running');
+    }
+
+    const handle = this.createHandle({ name: strategy.name(), kind: 'strategy' });
+    const subscribed = options.subscribe ? new Set<string>(options.subscribe) : undefined;
+    const subscribe = () => {
+      const receiver = eventChannel.subscribe({
+        filter: subscribed ? ({ stream }) => subscribed.has(stream) : undefined,
+        onLag: (lagCount) => {
+          this.events.emit('lagged', { ...handle.component, lagCount });
+        },
+      });
+      handle.unsubscribe = (drain) => receiver.close(drain);
+      handle.lagCount = () => receiver.getLagCount();
+      return receiver;
+    };
+    const actionSubmitter = new ActionChannelSubmitter<A>(actionChannel, {
+      onUnrouted: () => {
+        this.unroutedActions++;
+        this.metrics.unroutedActions.inc();
+        logger.debug(`Action submitted by ${strategy.name()} was not routed to any executor`);
+      },
+      results: this.actionResults,
+    });
+
+    // Subscribe before syncing so no event published in the meantime is missed
+    const receiver = subscribe();
+    entry.handle = handle;
+
+    // Sync state if the strategy implements it
+    if (strategy.syncState) {
+      try {
+        await strategy.syncState(actionSubmitter);
+      } catch (e) {
+        receiver.close();
+        handle.status = 'stopped';
+        throw new Error(`Failed to sync state for ${strategy.name()}: ${e}`);
+      }
+    }
+
+    handle.task = this.runStrategy(strategy, handle, receiver, subscribe, actionSubmitter, options);
+  }
+
+  /**
+   * Start a collector
+   * @param entry The collector to start
+   */
+  private startCollector(entry: CollectorEntry<E>): void {
+    const handle = this.createHandle({ name: entry.collector.name(), kind: 'collector' });
+    entry.handle = handle;
+    handle.task = this.runCollector(entry.stream, entry.collector, handle, entry.options);
+  }
+
+  /**
+   * Wake up a component waiting for resume
+   * @param handle The component's handle
+   */
+  private wake(handle: ComponentHandle): void {
+    const resume = handle.resume;
+    handle.resume = undefined;
+    resume?.();
+  }
+
+  /**
+   * Wait while a component is paused
+   * @param handle The component's handle
+   * @returns Whether the component was resumed, false if it was removed or the engine stopped
+   */
+  private async waitForResume(handle: ComponentHandle): Promise<boolean> {
+    while (handle.status === 'paused' && this.running) {
+      await new Promise<void>((resolve) => {
+        handle.resume = resolve;
+      });
+    }
+
+    return handle.status === 'running' && this.running;
+  }
+
+  /**
+   * Record a component error, apply exponential backoff and stop the engine
+   * when the error budget is exhausted and stopOnCriticalError is set
+   * @param handle The handle of the component that failed
+   * @param error The error that was thrown
+   * @returns Whether the component loop should exit
+   */
+  private async handleComponentError(handle: ComponentHandle, error: unknown): Promise<boolean> {
+    const { component, errors: state, log } = handle;
+    this.metrics.componentErrors.inc({ kind: component.kind, component: component.name });
+    this.events.emit('componentError', {
+      ...component,
+      error,
+      consecutiveErrors: state.consecutiveErrors,
+    });
+
+    // Implement exponential backoff
+    if (state.consecutiveErrors > this.config.maxConsecutiveErrors) {
+      const newBackoff = Math.min(state.backoffMs * 2, this.config.maxBackoffMs);
+      if (newBackoff !== state.backoffMs) {
+        state.backoffMs = newBackoff;
+        log.warn(`Increasing backoff to ${state.backoffMs}ms due to errors`);
+      }
+
+      this.events.emit('backoff', {
+        ...component,
+        backoffMs: state.backoffMs,
+        consecutiveErrors: state.consecutiveErrors,
+      });
+
+      // Sleep for backoff period
+      state.backingOff = true;
+      await new Promise((resolve) => setTimeout(resolve, state.backoffMs));
+      state.backingOff = false;
+    }
+
+    // Stop the engine on critical error if configured to do so
+    if (
+      this.config.stopOnCriticalError &&
+      state.consecutiveErrors > this.config.maxConsecutiveErrors * 2
+    ) {
+      log.error('Too many consecutive errors, stopping engine', {
+        consecutiveErrors: state.consecutiveErrors,
+      });
+      await this.stop();
+      return true;
+    }
+
+    return false;
+  }
+
+  /**
+   * Reset the error bookkeeping of a component loop after a success
+   * @param state The error bookkeeping of the component loop
+   */
+  private resetErrorState(state: ErrorState): void {
+    if (state.consecutiveErrors > 0) {
+      state.consecutiveErrors = 0;
+      state.backoffMs = this.config.initialBackoffMs;
+    }
   }
 
   /**
    * Run an executor
    * @param executor The executor to run
-   * @param receiver The receiver to get actions from
+   * @param handle The executor's runtime handle
+   * @param subscribe Subscribes a new receiver to get actions from
+   * @param options Options for the executor
    */
-  private async runExecutor(executor: Executor<A>, receiver: AsyncIterator<A>): Promise<void> {
-    logger.debug(`Starting executor: ${executor.name()}`);
-
-    let consecutiveErrors = 0;
-    let backoffMs = this.config.initialBackoffMs;
+  private async runExecutor(
+    executor: Executor<A, unknown>,
+    handle: ComponentHandle,
+    subscribe: () => BroadcastReceiver<ActionEnvelope<A>>,
+    options: ExecutorOptions<A>
+  ): Promise<void> {
+    const { component, errors: state, log } = handle;
+    const concurrency = options.concurrency ?? 1;
+    const pool = concurrency > 1 ? new KeyedTaskPool(concurrency) : undefined;
+    // Set when a pooled execution requires the loop to exit
+    let exiting = false;
+    const keyOf = options.ordering === 'perKey' ? options.key : undefined;
+    const timeoutMs = options.timeoutMs ?? this.config.executeTimeoutMs;
+    let receiver = subscribe();
+    let pauses = handle.pauses;
+
+    log.debug('Starting executor');
+    this.events.emit('componentStarted', component);
 
     try {
-      while (this.running) {
+      while ((this.running || this.draining) && !exiting) {
         try {
           const result = await receiver.next();
 
           if (result.done) {
-            logger.debug(`Action stream ended for ${executor.name()}`);
-            break;
+            if (handle.pauses === pauses) {
+              log.debug('Action stream ended');
+              break;
+            }
+
+            // Unsubscribed by a pause, subscribe again once resumed
+            if (!(await this.waitForResume(handle))) {
+              break;
+            }
+            receiver = subscribe();
+            pauses = handle.pauses;
+            continue;
           }
 
-          await executor.execute(result.value);
+          // A pooled task may have asked to exit while the loop waited
+          if (exiting) {
+            break;
+          }
 
-          // Reset backoff on success
-          if (consecutiveErrors > 0) {
-            consecutiveErrors = 0;
-            backoffMs = this.config.initialBackoffMs;
+          const envelope = result.value;
+          handle.lastEventAt = Date.now();
+          if (pool) {
+            // Waits for a free slot, so a saturated executor applies backpressure
+            await pool.schedule(async () => {
+              if (await this.executeAction(executor, handle, envelope, timeoutMs)) {
+                exiting = true;
+              }
+            }, keyOf?.(envelope.action));
+          } else if (await this.executeAction(executor, handle, envelope, timeoutMs)) {
+            break;
           }
         } catch (e) {
-          consecutiveErrors++;
+          state.consecutiveErrors++;
 
           if (e instanceof ChannelError) {
             if (e.type === ChannelErrorType.CLOSED) {
-              logger.debug(`Action channel closed for ${executor.name()}`);
+              log.debug('Action channel closed');
               break;
             }
             if (e.type === ChannelErrorType.LAGGED) {
-              logger.warn(`Action channel lagged for ${executor.name()}: ${e.message}`);
+              log.warn('Action channel lagged', { error: e });
             } else {
-              logger.error(`Channel error in executor ${executor.name()}: ${e.message}`);
+              log.error('Action channel error', { error: e });
             }
           } else {
-            logger.error(`Error executing action in ${executor.name()}: ${e}`);
-          }
-
-          // Implement exponential backoff
-          if (consecutiveErrors > this.config.maxConsecutiveErrors) {
-            const newBackoff = Math.min(backoffMs * 2, this.config.maxBackoffMs);
-            if (newBackoff !== backoffMs) {
-              backoffMs = newBackoff;
-              logger.warn(
-                `Increasing backoff for ${executor.name()} to ${backoffMs}ms due to errors`
-              );
-            }
-
-            // Sleep for backoff period
-            await new Promise((resolve) => setTimeout(resolve, backoffMs));
+            log.error('Error receiving action', { error: e });
           }
 
-          // Stop the engine on critical error if configured to do so
-          if (
-            this.config.stopOnCriticalError &&
-            consecutiveErrors > this.config.maxConsecutiveErrors * 2
-          ) {
-            logger.error(
-              `Too many consecutive errors in executor ${executor.name()}, stopping engine`
-            );
-            await this.stop();
+          if (await this.handleComponentError(handle, e)) {
             break;
           }
         }
       }
+
+      // Let in-flight executions finish
+      await pool?.idle();
     } catch (e) {
-      logger.error(`Unexpected error in executor ${executor.name()}: ${e}`);
+      log.error('Unexpected error in executor', { error: e });
     }
 
-    logger.debug(`Executor ${executor.name()} stopped`);
+    this.markStopped(handle);
+    log.debug('Executor stopped');
+    this.events.emit('componentStopped', component);
+  }
+
+  /**
+   * Execute a single action and report its outcome to a strategy waiting for the result
+   * @param executor The executor to run the action with
+   * @param handle The executor's runtime handle
+   * @param envelope The action to execute
+   * @param timeoutMs The timeout for the execution, 0 for none
+   * @returns Whether the executor loop should exit
+   */
+  private async executeAction(
+    executor: Executor<A, unknown>,
+    handle: ComponentHandle,
+    envelope: ActionEnvelope<A>,
+    timeoutMs: number
+  ): Promise<boolean> {
+    const { component, errors: state, log } = handle;
+    const labels = { executor: component.name };
+    const endTimer = this.metrics.executorExecution.startTimer(labels);
+    const span = this.tracer?.startSpan(`execute ${component.name}`, {
+      parent: envelope.trace,
+      kind: 'consumer',
+      attributes: { 'frogberry.executor': component.name },
+    });
+
+    try {
+      const result = await withTimeout(
+        (signal) => executor.execute(envelope.action, { signal, trace: span?.context }),
+        timeoutMs,
+        {
+          signal: this.abortController.signal,
+          message: `Action in ${component.name} timed out after ${timeoutMs}ms`,
+        }
+      );
+      this.actionResults.resolve(envelope.id, result);
+      endTimer();
+      span?.end();
+      this.metrics.executorActions.inc({ ...labels, result: 'success' });
+
+      // Reset backoff on success
+      this.resetErrorState(state);
+      return false;
+    } catch (e) {
+      span?.end(e);
+      this.actionResults.reject(envelope.id, e);
+      if (this.abortController.signal.aborted) {
+        log.debug('Action aborted by engine shutdown');
+        return true;
+      }
+
+      endTimer();
+      this.metrics.executorActions.inc({ ...labels, result: failureResult(e) });
+      state.consecutiveErrors++;
+      log.error('Error executing action', { error: e });
+
+      return this.handleComponentError(handle, e);
+    }
   }
 
   /**
    * Run a strategy
    * @param strategy The strategy to run
+   * @param handle The strategy's runtime handle
    * @param eventReceiver The receiver to get events from
+   * @param subscribe Subscribes a new receiver when the strategy is resumed
    * @param actionSubmitter The submitter to submit actions to
+   * @param options Options for the strategy
    */
   private async runStrategy(
     strategy: Strategy<E, A>,
-    eventReceiver: AsyncIterator<E>,
-    actionSubmitter: ActionChannelSubmitter<A>
+    handle: ComponentHandle,
+    eventReceiver: BroadcastReceiver<StreamEvent<E>>,
+    subscribe: () => BroadcastReceiver<StreamEvent<E>>,
+    actionSubmitter: ActionChannelSubmitter<A>,
+    options: StrategyOptions<E>
   ): Promise<void> {
-    logger.debug(`Starting strategy: ${strategy.name()}`);
+    const { component, errors: state, log } = handle;
+    const concurrency = options.concurrency ?? 1;
+    const pool = concurrency > 1 ? new KeyedTaskPool(concurrency) : undefined;
+    // Set when a pooled event requires the loop to exit
+    let exiting = false;
+    const partitions = new Map<string, PartitionLag>();
+    const timeoutMs = options.timeoutMs ?? this.config.processTimeoutMs;
+    let receiver = eventReceiver;
+    let pauses = handle.pauses;
+
+    if (options.partitionKey) {
+      this.partitionLags.set(component.name, partitions);
+    }
 
-    let consecutiveErrors = 0;
-    let backoffMs = this.config.initialBackoffMs;
+    log.debug('Starting strategy');
+    this.events.emit('componentStarted', component);
 
     try {
-      while (this.running) {
+      while ((this.running || this.draining) && !exiting) {
         try {
-          const result = await eventReceiver.next();
+          const result = await receiver.next();
 
           if (result.done) {
-            logger.debug(`Event stream ended for ${strategy.name()}`);
+            if (handle.pauses === pauses) {
+              log.debug('Event stream ended');
+              break;
+            }
+
+            // Unsubscribed by a pause, subscribe again once resumed
+            if (!(await this.waitForResume(handle))) {
+              break;
+            }
+            receiver = subscribe();
+            pauses = handle.pauses;
+            continue;
+          }
+
+          // A pooled task may have asked to exit while the loop waited
+          if (exiting) {
             break;
           }
 
-          await strategy.processEvent(result.value, actionSubmitter);
+          const envelope = result.value;
+          handle.lastEventAt = Date.now();
+          const key = options.partitionKey?.(envelope.event);
+          const partition = key === undefined ? undefined : String(key);
+          let lag: PartitionLag | undefined;
+          if (partition !== undefined) {
+            lag = partitions.get(partition) ?? { pending: 0, lagMs: 0 };
+            lag.pending++;
+            partitions.set(partition, lag);
+          }
 
-          // Reset backoff on success
-          if (consecutiveErrors > 0) {
-            consecutiveErrors = 0;
-            backoffMs = this.config.initialBackoffMs;
+          const process = async (): Promise<boolean> => {
+            if (lag) lag.lagMs = Date.now() - envelope.collectedAt;
+            try {
+              return await this.processEvent(
+                strategy,
+                handle,
+                actionSubmitter,
+                envelope,
+                timeoutMs
+              );
+            } finally {
+              if (lag && --lag.pending === 0 && partition !== undefined) {
+                partitions.delete(partition);
+              }
+            }
+          };
+
+          if (pool) {
+            // Waits for a free slot, so a saturated strategy applies backpressure
+            await pool.schedule(async () => {
+              if (await process()) {
+                exiting = true;
+              }
+            }, key);
+          } else if (await process()) {
+            break;
           }
         } catch (e) {
-          consecutiveErrors++;
+          state.consecutiveErrors++;
 
           if (e instanceof ChannelError) {
             if (e.type === ChannelErrorType.CLOSED) {
-              logger.debug(`Event channel closed for ${strategy.name()}`);
+              log.debug('Event channel closed');
               break;
             }
             if (e.type === ChannelErrorType.LAGGED) {
-              logger.warn(`Event channel lagged for ${strategy.name()}: ${e.message}`);
+              log.warn('Event channel lagged', { error: e });
             } else {
-              logger.error(`Channel error in strategy ${strategy.name()}: ${e.message}`);
+              log.error('Event channel error', { error: e });
             }
           } else {
-            logger.error(`Error processing event in ${strategy.name()}: ${e}`);
-          }
-
-          // Exponential backoff
-          if (consecutiveErrors > this.config.maxConsecutiveErrors) {
-            const newBackoff = Math.min(backoffMs * 2, this.config.maxBackoffMs);
-            if (newBackoff !== backoffMs) {
-              backoffMs = newBackoff;
-              logger.warn(
-                `Increasing backoff for ${strategy.name()} to ${backoffMs}ms due to errors`
-              );
-            }
-
-            // Sleep for backoff period
-            await new Promise((resolve) => setTimeout(resolve, backoffMs));
+            log.error('Error receiving event', { error: e });
           }
 
-          // Stop the engine on critical error if configured to do so
-          if (
-            this.config.stopOnCriticalError &&
-            consecutiveErrors > this.config.maxConsecutiveErrors * 2
-          ) {
-            logger.error(
-              `Too many consecutive errors in strategy ${strategy.name()}, stopping engine`
-            );
-            await this.stop();
+          if (await this.handleComponentError(handle, e)) {
             break;
           }
         }
       }
+
+      // Let in-flight events finish
+      await pool?.idle();
     } catch (e) {
-      logger.error(`Unexpected error in strategy ${strategy.name()}: ${e}`);
+      log.error('Unexpected error in strategy', { error: e });
+    }
+
+    if (this.partitionLags.get(component.name) === partitions) {
+      this.partitionLags.delete(component.name);
     }
 
-    logger.debug(`Strategy ${strategy.name()} stopped`);
+    this.markStopped(handle);
+    log.debug('Strategy stopped');
+    this.events.emit('componentStopped', component);
   }
 
   /**
-   * Run a collector
-   * @param collector The collector to run
+   * Process a single event with a strategy
+   * @param strategy The strategy to process the event with
+   * @param handle The strategy's runtime handle
+   * @param actionSubmitter The submitter to submit actions to
+   * @param envelope The event to process
+   * @param timeoutMs The timeout for processing, 0 for none
+   * @returns Whether the strategy loop should exit
    */
-  private async runCollector(collector: Collector<E>): Promise<void> {
-    logger.debug(`Starting collector: ${collector.name()}`);
-
-    let consecutiveErrors = 0;
-    let backoffMs = this.config.initialBackoffMs;
+  private async processEvent(
+    strategy: Strategy<E, A>,
+    handle: ComponentHandle,
+    actionSubmitter: ActionChannelSubmitter<A>,
+    envelope: StreamEvent<E>,
+    timeoutMs: number
+  ): Promise<boolean> {
+    const { component, errors: state, log } = handle;
+    const labels = { strategy: component.name };
+    const endTimer = this.metrics.strategyProcessing.startTimer(labels);
+    const span = this.tracer?.startSpan(`process ${component.name}`, {
+      parent: envelope.trace,
+      kind: 'consumer',
+      attributes: {
+        'frogberry.strategy': component.name,
+        'frogberry.stream': envelope.stream,
+        'frogberry.queue_ms': Date.now() - envelope.collectedAt,
+      },
+    });
+    // Actions submitted while processing become children of this span
+    const submitter = span ? actionSubmitter.withTrace(span.context) : actionSubmitter;
 
     try {
-      const eventStream = await collector.getEventStream();
+      await withTimeout(
+        (signal) =>
+          strategy.processEvent(envelope.event, submitter, { signal, trace: span?.context }),
+        timeoutMs,
+        {
+          signal: this.abortController.signal,
+          message: `Event processing in ${component.name} timed out after ${timeoutMs}ms`,
+        }
+      );
+      endTimer();
+      span?.end();
+      this.metrics.strategyEvents.inc({ ...labels, result: 'success' });
+
+      // Reset backoff on success
+      this.resetErrorState(state);
+      return false;
+    } catch (e) {
+      span?.end(e);
+      if (this.abortController.signal.aborted) {
+        log.debug('Event processing aborted by engine shutdown');
+        return true;
+      }
 
-      while (this.running) {
-        try {
-          const result = await eventStream.next();
+      endTimer();
+      this.metrics.strategyEvents.inc({ ...labels, result: failureResult(e) });
+      state.consecutiveErrors++;
+      log.error('Error processing event', { stream: envelope.stream, error: e });
 
-          if (result.done) {
-            logger.debug(`Event stream ended for ${collector.name()}`);
-            break;
-          }
+      return this.handleComponentError(handle, e);
+    }
+  }
 
-          if (this.eventChannel) {
-            this.eventChannel.send(result.value);
-          }
+  /**
+   * Run a collector, restarting its event stream according to its restart policy
+   * @param stream The name of the stream the collector publishes on
+   * @param collector The collector to run
+   * @param handle The collector's runtime handle
+   * @param options Options for the collector
+   */
+  private async runCollector(
+    stream: string,
+    collector: Collector<E>,
+    handle: ComponentHandle,
+    options: CollectorOptions
+  ): Promise<void> {
+    const { component, errors: state, log } = handle;
+    const policy = options.restart ?? this.config.collectorRestartPolicy;
+    const maxRestarts = policy.maxRestarts ?? Number.POSITIVE_INFINITY;
+    let restarts = 0;
+
+    log.debug('Starting collector', { stream });
+    this.events.emit('componentStarted', component);
+
+    while (this.running) {
+      // A paused collector holds no event stream until it is resumed
+      if (handle.status !== 'running' && !(await this.waitForResume(handle))) {
+        break;
+      }
 
-          // Reset backoff on success
-          if (consecutiveErrors > 0) {
-            consecutiveErrors = 0;
-            backoffMs = this.config.initialBackoffMs;
-          }
-        } catch (e) {
-          consecutiveErrors++;
+      let eventStream: CollectorStream<E> | undefined;
+      let failed = false;
+      let stopped = false;
+      let stale = false;
+      const pauses = handle.pauses;
 
-          if (e instanceof ChannelError) {
-            if (e.type === ChannelErrorType.CLOSED) {
-              logger.debug(`Event channel closed for ${collector.name()}`);
+      try {
+        eventStream = await collector.getEventStream();
+        let lastEventAt = Date.now();
+
+        while (this.running) {
+          try {
+            const result = await this.nextEvent(handle, eventStream, options, lastEventAt);
+
+            if (result === 'stale') {
+              stale = true;
               break;
             }
-            logger.error(`Channel error in collector ${collector.name()}: ${e.message}`);
-          } else {
-            logger.error(`Error in collector ${collector.name()}: ${e}`);
-          }
 
-          // Implement exponential backoff
-          if (consecutiveErrors > this.config.maxConsecutiveErrors) {
-            const newBackoff = Math.min(backoffMs * 2, this.config.maxBackoffMs);
-            if (newBackoff !== backoffMs) {
-              backoffMs = newBackoff;
-              logger.warn(
-                `Increasing backoff for ${collector.name()} to ${backoffMs}ms due to errors`
-              );
+            if (!result) {
+              stopped = true;
+              break;
             }
 
-            // Sleep for backoff period
-            await new Promise((resolve) => setTimeout(resolve, backoffMs));
-          }
+            if (result.done) {
+              log.debug('Event stream ended');
+              break;
+            }
 
-          // Stop the engine on critical error if configured to do so
-          if (
-            this.config.stopOnCriticalError &&
-            consecutiveErrors > this.config.maxConsecutiveErrors * 2
-          ) {
-            logger.error(
-              `Too many consecutive errors in collector ${collector.name()}, stopping engine`
-            );
-            await this.stop();
-            break;
+            if (this.eventChannel) {
+              const span = this.tracer?.startSpan(`collect ${component.name}`, {
+                kind: 'producer',
+                attributes: { 'frogberry.collector': component.name, 'frogberry.stream': stream },
+              });
+              try {
+                await this.eventChannel.sendAsync({
+                  stream,
+                  event: result.value,
+                  collectedAt: Date.now(),
+                  trace: span?.context,
+                });
+              } catch (e) {
+                span?.end(e);
+                throw e;
+              }
+              span?.end();
+              this.metrics.collectorEvents.inc({ collector: component.name });
+              handle.lastEventAt = Date.now();
+            }
+            lastEventAt = Date.now();
+
+            // Reset backoff and restart count on success
+            this.resetErrorState(state);
+            restarts = 0;
+          } catch (e) {
+            state.consecutiveErrors++;
+
+            if (e instanceof ChannelError) {
+              if (e.type === ChannelErrorType.CLOSED) {
+                log.debug('Event channel closed');
+                stopped = true;
+                break;
+              }
+              log.error('Event channel error', { error: e });
+            } else {
+              log.error('Error in collector', { error: e });
+            }
+
+            if (await this.handleComponentError(handle, e)) {
+              stopped = true;
+              break;
+            }
+
+            // Replace a failing stream instead of polling it again if the policy allows it
+            if (policy.mode !== 'never' && !(e instanceof ChannelError)) {
+              failed = true;
+              break;
+            }
           }
         }
+      } catch (e) {
+        state.consecutiveErrors++;
+        failed = true;
+        log.error('Error in collector', { error: e });
+
+        if (await this.handleComponentError(handle, e)) {
+          stopped = true;
+        }
       }
-    } catch (e) {
-      logger.error(`Error in collector ${collector.name()}: ${e}`);
+
+      this.closeEventStream(handle, eventStream);
+
+      // Paused while streaming, wait for resume at the top of the loop
+      if (handle.pauses !== pauses) {
+        continue;
+      }
+
+      const shouldRestart = stale || (failed ? policy.mode !== 'never' : policy.mode === 'always');
+      if (stopped || !this.running || !shouldRestart) {
+        break;
+      }
+
+      if (restarts >= maxRestarts) {
+        log.error(`Exceeded ${maxRestarts} restarts, giving up`);
+        break;
+      }
+
+      restarts++;
+      const delayMs = Math.min(
+        this.config.initialBackoffMs * 2 ** (restarts - 1),
+        this.config.maxBackoffMs
+      );
+
+      log.warn(`Restarting collector in ${delayMs}ms`, { attempt: restarts });
+      this.metrics.collectorRestarts.inc({ collector: component.name });
+      this.events.emit('componentRestarted', { ...component, attempt: restarts, delayMs });
+
+      await this.untilInterrupted(handle, new Promise((resolve) => setTimeout(resolve, delayMs)));
+    }
+
+    this.markStopped(handle);
+    log.debug('Collector stopped');
+    this.events.emit('componentStopped', component);
+  }
+
+  /**
+   * Wait for the next event of a collector, watching for silence if maxSilenceMs is set
+   * @param handle The collector's handle
+   * @param eventStream The collector's event stream
+   * @param options Options for the collector
+   * @param lastEventAt Time of the last event, or of opening the stream
+   * @returns The next result, undefined if the collector was interrupted, or 'stale' if it
+   * stayed silent and should resubscribe
+   */
+  private async nextEvent(
+    handle: ComponentHandle,
+    eventStream: CollectorStream<E>,
+    options: CollectorOptions,
+    lastEventAt: number
+  ): Promise<IteratorResult<E> | undefined | 'stale'> {
+    const next = eventStream.next();
+    const maxSilenceMs = options.maxSilenceMs;
+    if (!maxSilenceMs || maxSilenceMs <= 0) {
+      return this.untilInterrupted(handle, next);
     }
 
-    logger.debug(`Collector ${collector.name()} stopped`);
+    let deadline = lastEventAt + maxSilenceMs;
+    while (true) {
+      let timer: ReturnType<typeof setTimeout> | undefined;
+      const silence = new Promise<'silent'>((resolve) => {
+        timer = setTimeout(() => resolve('silent'), Math.max(0, deadline - Date.now()));
+      });
+
+      try {
+        const result = await this.untilInterrupted(handle, Promise.race([next, silence]));
+        if (result !== 'silent') {
+          return result;
+        }
+      } finally {
+        clearTimeout(timer);
+      }
+
+      const silentMs = Date.now() - lastEventAt;
+      const resubscribing = options.resubscribeOnSilence ?? false;
+      handle.log.warn(`Collector has been silent for ${silentMs}ms`, { resubscribing });
+      this.metrics.collectorStalls.inc({ collector: handle.component.name });
+      this.events.emit('stale', { ...handle.component, silentMs, resubscribing });
+
+      if (resubscribing) {
+        // The abandoned call may still settle, its result is of no interest
+        next.catch(() => {});
+        return 'stale';
+      }
+
+      deadline += maxSilenceMs;
+    }
+  }
+
+  /**
+   * Mark a component whose loop has exited as stopped, unless it was removed
+   * @param handle The component's handle
+   */
+  private markStopped(handle: ComponentHandle): void {
+    if (handle.status !== 'removed') {
+      handle.status = 'stopped';
+    }
+  }
+
+  /**
+   * Wait for a promise, giving up when the component is interrupted
+   * @param handle The component's handle
+   * @param promise The promise to wait for
+   * @returns The result of the promise, or undefined if the component was interrupted first
+   */
+  private async untilInterrupted<T>(
+    handle: ComponentHandle,
+    promise: Promise<T>
+  ): Promise<T | undefined> {
+    const signal = handle.interrupt.signal;
+    if (signal.aborted) {
+      return undefined;
+    }
+
+    let onAbort: (() => void) | undefined;
+    const stopped = new Promise<undefined>((resolve) => {
+      onAbort = () => resolve(undefined);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+
+    try {
+      return await Promise.race([promise, stopped]);
+    } finally {
+      if (onAbort) {
+        signal.removeEventListener('abort', onAbort);
+      }
+    }
+  }
+
+  /**
+   * Close a collector's event stream, releasing its resources
+   * The close is not awaited: an async generator only settles return() once its pending next()
+   * settles, which may be never for a silent or interrupted stream.
+   * @param handle The handle of the collector that owns the stream
+   * @param eventStream The stream to close
+   */
+  private closeEventStream(
+    handle: ComponentHandle,
+    eventStream: CollectorStream<E> | undefined
+  ): void {
+    if (!eventStream?.return) {
+      return;
+    }
+
+    try {
+      eventStream.return().catch((e) => {
+        handle.log.warn('Error closing event stream', { error: e });
+      });
+    } catch (e) {
+      handle.log.warn('Error closing event stream', { error: e });
+    }
   }
 }
@@ -161,6 +161,6 @@ async function runComparison() {
 
 // Run the comparison
 runComparison().catch((err) => {
-  logger.error(`Benchmark error: ${err}`);
+  logger.error('Benchmark error', { error: err });
   process.exit(1);
 });
@@ -74,7 +74,7 @@ async function runIntervalExample() {
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   logger.info('Engine stopped');
@@ -118,7 +118,7 @@ async function runBlockExample() {
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   logger.info('Engine stopped');
@@ -142,6 +142,6 @@ async function main() {
 
 // Run the examples
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
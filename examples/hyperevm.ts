@@ -3,9 +3,13 @@
  * Demonstrates how to use the Frogberry framework to monitor HyperEVM events
  */
 
-import type { Block, Chain, Log, Transaction } from 'viem';
+import { type Block, type Chain, parseAbi } from 'viem';
 import { BlockCollector, type BlockCollectorConfig } from '../collector';
-import { LogCollector, type LogCollectorConfig, type LogFilter } from '../collector';
+import {
+  type ContractEvent,
+  ContractEventCollector,
+  type ContractEventCollectorConfig,
+} from '../collector';
 import { Engine, type EngineConfig } from '../engine';
 import { PrinterExecutor } from '../executor';
 import type { ActionSubmitter, Strategy } from '../types';
@@ -14,12 +18,26 @@ import { LogLevel, logger } from '../utils/logger';
 // Set log level to debug
 logger.setLevel(LogLevel.DEBUG);
 
+// WHYPE emits the standard WETH9 events
+const whypeAbi = parseAbi([
+  'event Transfer(address indexed src, address indexed dst, uint256 wad)',
+  'event Deposit(address indexed dst, uint256 wad)',
+  'event Withdrawal(address indexed src, uint256 wad)',
+]);
+type Transfer = ContractEvent<typeof whypeAbi, 'Transfer'>;
+
 // Define event and action types
-type Event = Block | Log | Transaction;
+type Event = Block | Transfer;
 type Action = string;
 
+// Each named stream carries a single event type
+type Streams = {
+  blocks: Block;
+  logs: Transfer;
+};
+
 // Define a simple strategy for WHYPE transfers
-class WHYPETransferStrategy implements Strategy<Log, Action> {
+class WHYPETransferStrategy implements Strategy<Transfer, Action> {
   private transferCount = 0;
 
   name(): string {
@@ -36,13 +54,11 @@ class WHYPETransferStrategy implements Strategy<Log, Action> {
     }
   }
 
-  async processEvent(event: Log, submitter: ActionSubmitter<Action>): Promise<void> {
+  async processEvent(event: Transfer, submitter: ActionSubmitter<Action>): Promise<void> {
     this.transferCount++;
 
-    // Extract transfer details from the log
-    const from = `0x${event.topics[1]?.substring(26)}`;
-    const to = `0x${event.topics[2]?.substring(26)}`;
-    const value = BigInt(event.data);
+    // The transfer details are decoded from the log
+    const { src: from, dst: to, wad: value } = event.args;
 
     const message = `WHYPE Transfer #${this.transferCount}: ${value} from ${from} to ${to}`;
     logger.info(message);
@@ -105,7 +121,7 @@ const hyperEvmChain: Chain = {
   },
 };
 
-// Create and run the engines
+// Create and run the engine
 async function main() {
   // HyperEVM RPC URL
   const nodeUrl = 'https://rpc.hyperliquid.xyz/evm';
@@ -131,20 +147,11 @@ async function main() {
     includeTransactions: true,
   };
 
-  // Log collector configuration for WHYPE transfers
+  // Event collector configuration for WHYPE transfers
   // WHYPE contract address (using 0x5555...5555 as an example)
   const whypeAddress = '0x5555555555555555555555555555555555555555';
 
-  // Transfer event signature: Transfer(address indexed src, address indexed dst, uint wad)
-  const transferEventSignature =
-    '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef';
-
-  const logFilter: LogFilter = {
-    address: whypeAddress,
-    topics: [transferEventSignature],
-  };
-
-  const logCollectorConfig: LogCollectorConfig = {
+  const logCollectorConfig: ContractEventCollectorConfig = {
     pollingIntervalMs: 2000,
     maxQueueSize: 100,
     blockRange: 50,
@@ -153,44 +160,46 @@ async function main() {
   // Register the global SIGINT handler
   Engine.registerGlobalSigintHandler(5000);
 
-  // Create a block engine (no need for individual SIGINT handlers now)
-  const blockEngine = new Engine<Block, Action>(engineConfig);
-  blockEngine.addCollector(BlockCollector.withHttp(nodeUrl, hyperEvmChain, blockCollectorConfig));
-  blockEngine.addStrategy(new BlockStrategy());
-  blockEngine.addExecutor(new PrinterExecutor<Action>('Block'));
-
-  // Create a log engine for WHYPE transfers
-  const logEngine = new Engine<Log, Action>(engineConfig);
-  logEngine.addCollector(
-    LogCollector.withHttp(nodeUrl, hyperEvmChain, logFilter, logCollectorConfig)
+  // Create a single engine with a stream per collector
+  const engine = new Engine<Event, Action, Streams>(engineConfig);
+  engine.addCollector(
+    'blocks',
+    BlockCollector.withHttp(nodeUrl, hyperEvmChain, blockCollectorConfig)
+  );
+  engine.addCollector(
+    'logs',
+    ContractEventCollector.withHttp(
+      nodeUrl,
+      hyperEvmChain,
+      { abi: whypeAbi, eventName: 'Transfer', address: whypeAddress },
+      logCollectorConfig
+    )
   );
-  logEngine.addStrategy(new WHYPETransferStrategy());
-  logEngine.addExecutor(new PrinterExecutor<Action>('WHYPE'));
-
-  // Run the engines
-  logger.info('Starting engines...');
 
-  // Run all engines
-  const blockTasks = await blockEngine.run();
-  logger.info('Block engine started');
+  // Each strategy only receives the events of the streams it subscribes to
+  engine.addStrategy(new BlockStrategy(), { subscribe: ['blocks'] });
+  engine.addStrategy(new WHYPETransferStrategy(), { subscribe: ['logs'] });
+  engine.addExecutor(new PrinterExecutor<Action>('HyperEVM'));
 
-  const logTasks = await logEngine.run();
-  logger.info('WHYPE transfer engine started');
+  // Run the engine
+  logger.info('Starting engine...');
+  const tasks = await engine.run();
+  logger.info('Engine started');
 
-  // Run for 30 seconds
+  // Run for 10 seconds
   logger.info('Running for 10 seconds...');
   await new Promise((resolve) => setTimeout(resolve, 10_000));
 
-  // Stop all engines with a 5-second timeout
-  logger.info('Stopping engines...');
-  await Promise.all([blockEngine.stop(5000), logEngine.stop(5000)]);
+  // Stop the engine with a 5-second timeout
+  logger.info('Stopping engine...');
+  await engine.stop(5000);
 
   // Wait for all tasks to complete
-  await Promise.all([...blockTasks, ...logTasks]).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+  await Promise.all(tasks).catch((err) => {
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
-  logger.info('All engines stopped');
+  logger.info('Engine stopped');
   // Force exit the process to ensure all resources are cleaned up
   process.exit(0);
 }
@@ -203,10 +212,10 @@ process.on('exit', (code) => {
 
 // Note: We don't need to add a SIGINT handler here anymore
 // The global SIGINT handler registered with Engine.registerGlobalSigintHandler()
-// will handle graceful shutdown of all engines
+// will handle graceful shutdown of the engine
 
 // Run the example
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
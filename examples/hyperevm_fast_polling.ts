@@ -216,7 +216,7 @@ async function main() {
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   // Print performance report
@@ -236,6 +236,6 @@ process.on('exit', (code) => {
 
 // Run the example
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
@@ -257,7 +257,7 @@ async function runStandardCollector(runDurationMs: number): Promise<PerformanceM
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   // Print performance report
@@ -319,7 +319,7 @@ async function runFastCollector(runDurationMs: number): Promise<PerformanceMetri
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   // Print performance report
@@ -411,6 +411,6 @@ process.on('exit', (code) => {
 
 // Run the comparison
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
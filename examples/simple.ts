@@ -102,7 +102,7 @@ async function main() {
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   logger.info('Engine stopped');
@@ -118,6 +118,6 @@ process.on('exit', (code) => {
 
 // Run the example
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
@@ -207,7 +207,7 @@ async function main() {
 
   // Wait for all tasks to complete
   await Promise.all([...blockTasks, ...logTasks, ...txTasks]).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   logger.info('All engines stopped');
@@ -223,6 +223,6 @@ process.on('exit', (code) => {
 
 // Run the example
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
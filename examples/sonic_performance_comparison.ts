@@ -252,7 +252,7 @@ async function runHttpCollector(runDurationMs: number): Promise<PerformanceMetri
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   // Print performance report
@@ -315,7 +315,7 @@ async function runWebSocketCollector(runDurationMs: number): Promise<Performance
 
   // Wait for all tasks to complete
   await Promise.all(tasks).catch((err) => {
-    logger.error(`Task terminated unexpectedly: ${err}`);
+    logger.error('Task terminated unexpectedly', { error: err });
   });
 
   // Print performance report
@@ -407,6 +407,6 @@ process.on('exit', (code) => {
 
 // Run the comparison
 main().catch((err) => {
-  logger.error(`Error: ${err}`);
+  logger.error('Error', { error: err });
   process.exit(1);
 });
@@ -2,10 +2,12 @@
  * Telegram executor for sending notifications
  * Uses the unified TelegramClient from utils/telegram.ts
  */
-import type { Executor } from '../types';
-import { logger } from '../utils/logger';
+import type { ExecutionContext, Executor } from '../types';
+import { getLogger } from '../utils/logger';
 import { TelegramClient, type TelegramConfig, type TelegramMessage } from '../utils/telegram';
 
+const logger = getLogger('executor.telegram');
+
 /**
  * Executor for sending messages to Telegram
  */
@@ -27,12 +29,13 @@ export class TelegramExecutor implements Executor<TelegramMessage> {
   /**
    * Execute a message by sending it to Telegram
    * @param message The message to send
+   * @param context Execution context, used to abort the request
    */
-  async execute(message: TelegramMessage): Promise<void> {
+  async execute(message: TelegramMessage, context?: ExecutionContext): Promise<void> {
     try {
-      await this.client.sendMessage(message);
+      await this.client.sendMessage(message, context?.signal);
     } catch (error) {
-      logger.error(`Failed to send Telegram message: ${error}`);
+      logger.error('Failed to send Telegram message', { error });
       throw error;
     }
   }
@@ -14,3 +14,6 @@ export * as executor from './executor';
 
 // Re-export utils
 export * as utils from './utils/logger';
+export * as tracing from './utils/tracing';
+export * as checkpoint from './utils/checkpoint';
+export * as providerPool from './utils/provider_pool';
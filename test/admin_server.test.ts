@@ -0,0 +1,153 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { Engine, type EngineConfig } from '../engine';
+import type { Collector, CollectorStream, Executor, Strategy } from '../types';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+/**
+ * Collector whose stream stays silent
+ */
+class SilentCollector implements Collector<number> {
+  name(): string {
+    return 'SilentCollector';
+  }
+
+  async getEventStream(): Promise<CollectorStream<number>> {
+    return { next: () => new Promise(() => {}) };
+  }
+}
+
+class NoopStrategy implements Strategy<number, number> {
+  name(): string {
+    return 'NoopStrategy';
+  }
+
+  async processEvent(): Promise<void> {}
+}
+
+class NoopExecutor implements Executor<number> {
+  name(): string {
+    return 'NoopExecutor';
+  }
+
+  async execute(): Promise<void> {}
+}
+
+/**
+ * Get a port no server listens on
+ */
+function freePort(): number {
+  const server = Bun.serve({ port: 0, fetch: () => new Response() });
+  const port = server.port as number;
+  server.stop(true);
+  return port;
+}
+
+let engine: Engine<number, number> | undefined;
+
+afterEach(async () => {
+  await engine?.stop(1000);
+  engine = undefined;
+});
+
+/**
+ * Run an engine serving the admin API
+ * @returns A function sending a request to the admin API
+ */
+async function runEngine(
+  config: EngineConfig = {}
+): Promise<(method: string, path: string) => Promise<Response>> {
+  const port = freePort();
+  engine = new Engine<number, number>({ adminPort: port, ...config });
+  engine.addCollector(new SilentCollector());
+  engine.addStrategy(new NoopStrategy());
+  engine.addExecutor(new NoopExecutor());
+  await engine.run();
+
+  return (method, path) => fetch(`http://127.0.0.1:${port}${path}`, { method });
+}
+
+describe('admin API', () => {
+  test('reports health and lists the components', async () => {
+    const request = await runEngine();
+
+    const health = await request('GET', '/health');
+    expect(health.status).toBe(200);
+    expect(((await health.json()) as { status: string }).status).toBe('ok');
+
+    const components = (await (await request('GET', '/components')).json()) as {
+      name: string;
+      status: string;
+    }[];
+    expect(components.map(({ name, status }) => [name, status])).toEqual([
+      ['SilentCollector', 'running'],
+      ['NoopStrategy', 'running'],
+      ['NoopExecutor', 'running'],
+    ]);
+  });
+
+  test('pauses and resumes a component', async () => {
+    const request = await runEngine();
+
+    const paused = await request('POST', '/components/NoopStrategy/pause');
+    expect(paused.status).toBe(200);
+    expect(await paused.json()).toEqual({ name: 'NoopStrategy', action: 'pause' });
+    expect(engine?.listComponents().find(({ name }) => name === 'NoopStrategy')?.status).toBe(
+      'paused'
+    );
+
+    const again = await request('POST', '/components/NoopStrategy/pause');
+    expect(again.status).toBe(409);
+    expect(await again.json()).toEqual({ error: 'NoopStrategy cannot be paused now' });
+
+    const resumed = await request('POST', '/components/NoopStrategy/resume');
+    expect(resumed.status).toBe(200);
+    expect(engine?.listComponents().find(({ name }) => name === 'NoopStrategy')?.status).toBe(
+      'running'
+    );
+  });
+
+  test('removes a component', async () => {
+    const request = await runEngine();
+
+    const removed = await request('DELETE', '/components/NoopExecutor');
+    expect(removed.status).toBe(200);
+    expect(await removed.json()).toEqual({ name: 'NoopExecutor', action: 'remove' });
+    expect(engine?.listComponents().map(({ name }) => name)).not.toContain('NoopExecutor');
+  });
+
+  test('answers 404 for unknown components and paths', async () => {
+    const request = await runEngine();
+
+    for (const [method, path] of [
+      ['POST', '/components/Unknown/pause'],
+      ['POST', '/components/Unknown/resume'],
+      ['DELETE', '/components/Unknown'],
+    ]) {
+      const response = await request(method, path);
+      expect(response.status).toBe(404);
+      expect(await response.json()).toEqual({ error: 'Unknown component Unknown' });
+    }
+
+    expect((await request('GET', '/unknown')).status).toBe(404);
+  });
+
+  test('rejects an invalid stop request and stops the engine on a valid one', async () => {
+    const request = await runEngine();
+
+    expect((await request('POST', '/stop?mode=later')).status).toBe(400);
+    expect((await request('POST', '/stop?timeoutMs=-1')).status).toBe(400);
+    expect(engine?.isRunning()).toBe(true);
+
+    const stopping = await request('POST', '/stop?mode=drain&timeoutMs=1000');
+    expect(stopping.status).toBe(202);
+    expect(engine?.isRunning()).toBe(false);
+  });
+
+  test('binds to adminHostname', async () => {
+    const request = await runEngine({ adminHostname: '0.0.0.0' });
+
+    expect((await request('GET', '/health')).status).toBe(200);
+  });
+});
@@ -0,0 +1,107 @@
+import { describe, expect, test } from 'bun:test';
+import type { Block, Hash, PublicClient } from 'viem';
+import { BlockCollector, fetchMissingBlocks } from '../collector/block_collector';
+import type { CollectorStream } from '../types';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+const hashOf = (blockNumber: bigint) => `0x${blockNumber.toString(16).padStart(64, '0')}` as Hash;
+
+/**
+ * Fake HTTP client of a chain whose head is set by the test
+ */
+class FakeChain {
+  head = 100n;
+  /** Blocks fetched by number */
+  fetched: bigint[] = [];
+
+  readonly client = {
+    transport: { type: 'http' },
+    getBlock: async ({ blockNumber }: { blockNumber?: bigint } = {}) => {
+      if (blockNumber !== undefined) {
+        this.fetched.push(blockNumber);
+      }
+      const number = blockNumber ?? this.head;
+      return { number, hash: hashOf(number), parentHash: hashOf(number - 1n) };
+    },
+  } as unknown as PublicClient;
+}
+
+async function take(stream: CollectorStream<Block>, count: number): Promise<bigint[]> {
+  const numbers: bigint[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await stream.next();
+    if (result.done) break;
+    numbers.push(result.value.number as bigint);
+  }
+  return numbers;
+}
+
+const range = (from: bigint, to: bigint) =>
+  Array.from({ length: Number(to - from) + 1 }, (_, i) => from + BigInt(i));
+
+describe('fetchMissingBlocks', () => {
+  test('fetches the blocks between the last block and the head, oldest first', async () => {
+    const chain = new FakeChain();
+
+    const blocks = await fetchMissingBlocks(chain.client, 100n, 105n, { concurrency: 2 });
+
+    expect(blocks.map((block) => block.number)).toEqual(range(101n, 104n));
+  });
+
+  test('leaves out the oldest blocks beyond maxBlocks', async () => {
+    const chain = new FakeChain();
+
+    const blocks = await fetchMissingBlocks(chain.client, 0n, 10n, { maxBlocks: 3 });
+
+    expect(blocks.map((block) => block.number)).toEqual([7n, 8n, 9n]);
+  });
+});
+
+describe('BlockCollector gap filling', () => {
+  test('emits the skipped blocks before the new head', async () => {
+    const chain = new FakeChain();
+    const collector = new BlockCollector(chain.client, { gapFill: true, pollingIntervalMs: 10 });
+
+    const stream = await collector.getEventStream();
+    const first = await take(stream, 1);
+    chain.head = 105n;
+    const filled = await take(stream, 5);
+    await stream.return?.();
+
+    expect([...first, ...filled]).toEqual(range(100n, 105n));
+  });
+
+  test('skips the blocks between two polls without gapFill', async () => {
+    const chain = new FakeChain();
+    const collector = new BlockCollector(chain.client, { pollingIntervalMs: 10 });
+
+    const stream = await collector.getEventStream();
+    const first = await take(stream, 1);
+    chain.head = 105n;
+    const next = await take(stream, 1);
+    await stream.return?.();
+
+    expect([...first, ...next]).toEqual([100n, 105n]);
+    expect(chain.fetched.filter((n) => n > 100n && n < 105n)).toEqual([]);
+  });
+
+  test('waits for queue space instead of dropping filled blocks', async () => {
+    const chain = new FakeChain();
+    const collector = new BlockCollector(chain.client, {
+      gapFill: true,
+      maxQueueSize: 3,
+      pollingIntervalMs: 10,
+    });
+
+    const stream = await collector.getEventStream();
+    const first = await take(stream, 1);
+    chain.head = 120n;
+    await Bun.sleep(100);
+    const filled = await take(stream, 20);
+    await stream.return?.();
+
+    expect([...first, ...filled]).toEqual(range(100n, 120n));
+  });
+});
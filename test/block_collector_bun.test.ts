@@ -0,0 +1,106 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import type { Block, Chain } from 'viem';
+import { BlockCollectorBun } from '../collector/block_collector_bun';
+import type { CollectorStream } from '../types';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+const hex = (n: number) => `0x${n.toString(16)}`;
+const hashOf = (n: number) => `0x${n.toString(16).padStart(64, '0')}`;
+const chain = { id: 1 } as Chain;
+
+const rpcBlock = (number: number) => ({
+  number: hex(number),
+  hash: hashOf(number),
+  parentHash: hashOf(number - 1),
+  transactions: [],
+  timestamp: hex(number),
+  gasUsed: '0x0',
+  gasLimit: '0x0',
+  baseFeePerGas: '0x1',
+  difficulty: '0x0',
+  logsBloom: null,
+  miner: `0x${'0'.repeat(40)}`,
+  extraData: '0x',
+  nonce: '0x0',
+  size: '0x0',
+  stateRoot: hashOf(0),
+  receiptsRoot: hashOf(0),
+  transactionsRoot: hashOf(0),
+  sha3Uncles: hashOf(0),
+  uncles: [],
+  mixHash: hashOf(0),
+});
+
+const servers: Server[] = [];
+
+afterEach(() => {
+  for (const server of servers.splice(0)) {
+    server.stop(true);
+  }
+});
+
+/**
+ * Mock node whose head advances by one block every 10ms
+ * @returns The URL of the node
+ */
+function mockNode(): string {
+  const startedAt = Date.now();
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const { id, method, params } = (await req.json()) as {
+        id: number;
+        method: string;
+        params: unknown[];
+      };
+      const head = 100 + Math.floor((Date.now() - startedAt) / 10);
+      const reply = (result: unknown) => Response.json({ jsonrpc: '2.0', id, result });
+
+      if (method === 'eth_getBlockByNumber') {
+        return reply(rpcBlock(params[0] === 'latest' ? head : Number(params[0])));
+      }
+      if (method === 'eth_blockNumber') {
+        return reply(hex(head));
+      }
+      return reply(null);
+    },
+  });
+  servers.push(server);
+  return `http://localhost:${server.port}`;
+}
+
+async function take(stream: CollectorStream<Block>, count: number): Promise<number[]> {
+  const numbers: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await stream.next();
+    if (result.done) break;
+    numbers.push(Number(result.value.number));
+  }
+  return numbers;
+}
+
+describe('BlockCollectorBun', () => {
+  test('pauses the worker instead of dropping blocks when the queue is full', async () => {
+    const collector = BlockCollectorBun.withHttp(mockNode(), chain, {
+      pollingIntervalMs: 10,
+      maxQueueSize: 5,
+      gapFill: true,
+    });
+
+    const stream = await collector.getEventStream();
+    try {
+      const first = await take(stream, 1);
+      // Let the chain run far ahead of a full queue
+      await Bun.sleep(300);
+      const next = await take(stream, 40);
+
+      const numbers = [...first, ...next];
+      expect(numbers).toEqual(numbers.map((_, i) => numbers[0] + i));
+    } finally {
+      await stream.return?.();
+    }
+  });
+});
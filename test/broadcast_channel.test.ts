@@ -0,0 +1,124 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  BroadcastChannel,
+  type BroadcastReceiver,
+  ChannelError,
+  ChannelErrorType,
+} from '../utils/broadcast_channel';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+/**
+ * Read the values buffered by a receiver
+ */
+async function buffered<T>(receiver: BroadcastReceiver<T>, count: number): Promise<T[]> {
+  const values: T[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await receiver.next();
+    if (result.done) break;
+    values.push(result.value);
+  }
+  return values;
+}
+
+function expectFull(send: () => unknown): void {
+  try {
+    send();
+  } catch (error) {
+    expect(error).toBeInstanceOf(ChannelError);
+    expect((error as ChannelError).type).toBe(ChannelErrorType.FULL);
+    return;
+  }
+  throw new Error('send did not throw');
+}
+
+describe('BroadcastChannel overflow policies', () => {
+  test('dropOldest drops the oldest buffered message and counts it as lag', async () => {
+    const channel = new BroadcastChannel<number>(2, { lagReportInterval: 1 });
+    const lags: number[] = [];
+    const receiver = channel.subscribe({ onLag: (lagCount) => lags.push(lagCount) });
+
+    for (const value of [1, 2, 3, 4]) {
+      expect(channel.send(value)).toBe(1);
+    }
+
+    expect(await buffered(receiver, 2)).toEqual([3, 4]);
+    expect(receiver.getLagCount()).toBe(2);
+    expect(lags).toEqual([1, 2]);
+  });
+
+  test('dropNewest drops the new message and counts it as lag', async () => {
+    const channel = new BroadcastChannel<number>(2, { overflow: 'dropNewest' });
+    const receiver = channel.subscribe();
+
+    const delivered = [1, 2, 3, 4].map((value) => channel.send(value));
+
+    expect(delivered).toEqual([1, 1, 0, 0]);
+    expect(await buffered(receiver, 2)).toEqual([1, 2]);
+    expect(receiver.getLagCount()).toBe(2);
+  });
+
+  test('error throws without delivering the message to any receiver', async () => {
+    const channel = new BroadcastChannel<number>(1, { overflow: 'error' });
+    const slow = channel.subscribe();
+    const fast = channel.subscribe();
+
+    channel.send(1);
+    await fast.next();
+
+    expectFull(() => channel.send(2));
+    expect(channel.trySend(2)).toBe(false);
+    await expect(channel.sendAsync(2)).rejects.toThrow('Channel full');
+
+    expect(await buffered(slow, 1)).toEqual([1]);
+    channel.send(3);
+    expect(await buffered(fast, 1)).toEqual([3]);
+    expect(slow.getLagCount() + fast.getLagCount()).toBe(0);
+  });
+
+  test('block makes sendAsync wait until every receiver has capacity', async () => {
+    const channel = new BroadcastChannel<number>(1, { overflow: 'block' });
+    const receiver = channel.subscribe();
+
+    await channel.sendAsync(1);
+    expectFull(() => channel.send(2));
+
+    let sent = false;
+    const sending = channel.sendAsync(2).then(() => {
+      sent = true;
+    });
+    await Bun.sleep(10);
+    expect(sent).toBe(false);
+
+    expect(await buffered(receiver, 1)).toEqual([1]);
+    await sending;
+    expect(sent).toBe(true);
+    expect(await buffered(receiver, 1)).toEqual([2]);
+  });
+
+  test('block only waits for receivers that accept the message', async () => {
+    const channel = new BroadcastChannel<number>(1, { overflow: 'block' });
+    const odd = channel.subscribe({ filter: (value) => value % 2 === 1 });
+    const even = channel.subscribe({ filter: (value) => value % 2 === 0 });
+
+    await channel.sendAsync(1);
+    await channel.sendAsync(2);
+    expectFull(() => channel.send(3));
+
+    expect(await buffered(odd, 1)).toEqual([1]);
+    expect(await buffered(even, 1)).toEqual([2]);
+  });
+
+  test('block releases waiting senders when the channel closes', async () => {
+    const channel = new BroadcastChannel<number>(1, { overflow: 'block' });
+    const receiver = channel.subscribe();
+    await channel.sendAsync(1);
+
+    const sending = channel.sendAsync(2);
+    channel.close({ drain: true });
+
+    await expect(sending).rejects.toThrow('Channel closed');
+    expect(await buffered(receiver, 2)).toEqual([1]);
+  });
+});
@@ -0,0 +1,152 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type ContractEventName,
+  type Hash,
+  type Hex,
+  type Log,
+  type PublicClient,
+  type RpcLog,
+  encodeAbiParameters,
+  encodeEventTopics,
+  numberToHex,
+  parseAbi,
+  toEventSelector,
+} from 'viem';
+import { type ContractEvent, ContractEventCollector } from '../collector/contract_event_collector';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+const abi = parseAbi([
+  'event Transfer(address indexed from, address indexed to, uint256 value)',
+  'event Approval(address indexed owner, address indexed spender, uint256 value)',
+]);
+
+const token = '0x0000000000000000000000000000000000000001';
+const alice = '0x0000000000000000000000000000000000000002';
+const bob = '0x0000000000000000000000000000000000000003';
+
+const hashOf = (n: number) => `0x${n.toString(16).padStart(64, '0')}` as Hash;
+
+const rpcLog = (index: number, topics: Hex[], value: bigint): RpcLog => ({
+  address: token,
+  blockNumber: numberToHex(10),
+  blockHash: hashOf(10),
+  transactionHash: hashOf(100 + index),
+  transactionIndex: numberToHex(index),
+  logIndex: numberToHex(index),
+  data: encodeAbiParameters([{ type: 'uint256' }], [value]),
+  topics: topics as RpcLog['topics'],
+  removed: false,
+});
+
+const transfer = (index: number, value: bigint) =>
+  rpcLog(
+    index,
+    encodeEventTopics({ abi, eventName: 'Transfer', args: { from: alice, to: bob } }) as Hex[],
+    value
+  );
+
+const approval = (index: number, value: bigint) =>
+  rpcLog(
+    index,
+    encodeEventTopics({
+      abi,
+      eventName: 'Approval',
+      args: { owner: alice, spender: bob },
+    }) as Hex[],
+    value
+  );
+
+/**
+ * Fake HTTP client of a node returning the same logs for any eth_getLogs filter
+ */
+function fakeClient(logs: RpcLog[], getLogsParams: unknown[] = []): PublicClient {
+  return {
+    transport: { type: 'http' },
+    getBlockNumber: async () => 20n,
+    getBlock: async ({ blockNumber }: { blockNumber?: bigint } = {}) => {
+      const number = Number(blockNumber ?? 20n);
+      return { number: BigInt(number), hash: hashOf(number), parentHash: hashOf(number - 1) };
+    },
+    request: async ({ method, params }: { method: string; params: unknown[] }) => {
+      if (method !== 'eth_getLogs') {
+        throw new Error(`the method ${method} does not exist`);
+      }
+      getLogsParams.push(params[0]);
+      return logs;
+    },
+  } as unknown as PublicClient;
+}
+
+async function collect<TEventName extends ContractEventName<typeof abi>>(
+  collector: ContractEventCollector<typeof abi, TEventName>
+): Promise<ContractEvent<typeof abi, TEventName>[]> {
+  const stream = await collector.getEventStream();
+  const events: ContractEvent<typeof abi, TEventName>[] = [];
+  while (true) {
+    const result = await stream.next();
+    if (result.done) break;
+    events.push(result.value);
+  }
+  return events;
+}
+
+describe('ContractEventCollector', () => {
+  test('decodes logs into events with typed args', async () => {
+    const client = fakeClient([transfer(0, 5n), approval(1, 7n)]);
+    const collector = new ContractEventCollector(client, { abi, fromBlock: 10n, toBlock: 10n });
+
+    const events = await collect(collector);
+
+    expect(events.map(({ eventName, args }) => ({ eventName, args }))).toEqual([
+      { eventName: 'Transfer', args: { from: alice, to: bob, value: 5n } },
+      { eventName: 'Approval', args: { owner: alice, spender: bob, value: 7n } },
+    ]);
+    expect(events[0].transactionHash).toBe(hashOf(100));
+  });
+
+  test('only collects the named events and reports other logs', async () => {
+    const getLogsParams: { topics?: unknown[] }[] = [];
+    const client = fakeClient([approval(0, 7n), transfer(1, 5n)], getLogsParams);
+    const errors: [Error, Log][] = [];
+    const collector = new ContractEventCollector(
+      client,
+      { abi, eventName: 'Transfer', fromBlock: 10n, toBlock: 10n },
+      { onDecodeError: (error, log) => errors.push([error, log]) }
+    );
+
+    const events = await collect(collector);
+
+    expect(events.map((event) => event.args.value)).toEqual([5n]);
+    expect(getLogsParams[0].topics?.[0]).toEqual([toEventSelector(abi[0])]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0][0].message).toContain('is not one of the collected events');
+    expect(errors[0][1].logIndex).toBe(0);
+  });
+
+  test('skips logs that do not decode and reports them to onDecodeError', async () => {
+    // Same signature, but only the first argument is indexed
+    const [selector, from] = transfer(0, 5n).topics;
+    const client = fakeClient([rpcLog(0, [selector, from] as Hex[], 5n), transfer(1, 6n)]);
+    const errors: Error[] = [];
+    const collector = new ContractEventCollector(
+      client,
+      { abi, fromBlock: 10n, toBlock: 10n },
+      { onDecodeError: (error) => errors.push(error) }
+    );
+
+    const events = await collect(collector);
+
+    expect(events.map((event) => event.args.value)).toEqual([6n]);
+    expect(errors).toHaveLength(1);
+    expect(errors[0].name).toBe('DecodeLogTopicsMismatch');
+  });
+
+  test('rejects an event that is not in the ABI', () => {
+    const client = fakeClient([]);
+    expect(
+      () => new ContractEventCollector(client, { abi, eventName: 'Mint' as 'Transfer' })
+    ).toThrow('Event Mint not found in ABI');
+  });
+});
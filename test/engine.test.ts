@@ -0,0 +1,908 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import {
+  type CollectorOptions,
+  DEFAULT_STREAM,
+  Engine,
+  type EngineConfig,
+  routeBy,
+} from '../engine';
+import type { Collector, CollectorStream, ExecutionContext, Executor, Strategy } from '../types';
+import { LogLevel, logger } from '../utils/logger';
+import { MetricsRegistry } from '../utils/metrics';
+import { TimeoutError } from '../utils/timeout';
+
+logger.setLevel(LogLevel.ERROR);
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Collector whose streams are async generators yielding some events, then staying silent
+ * with a next() that never settles
+ */
+class GeneratorCollector implements Collector<number> {
+  streams = 0;
+
+  constructor(
+    private readonly collectorName: string,
+    private readonly events: number[] = []
+  ) {}
+
+  name(): string {
+    return this.collectorName;
+  }
+
+  async getEventStream(): Promise<CollectorStream<number>> {
+    this.streams++;
+    return this.generate();
+  }
+
+  private async *generate(): AsyncGenerator<number> {
+    yield* this.events;
+    await new Promise(() => {});
+  }
+}
+
+/**
+ * Collector whose first streams fail to open, and whose streams end after their events
+ */
+class FlakyCollector implements Collector<number> {
+  streams = 0;
+
+  constructor(
+    private readonly failures: number,
+    private readonly events: number[] = []
+  ) {}
+
+  name(): string {
+    return 'flaky';
+  }
+
+  async getEventStream(): Promise<CollectorStream<number>> {
+    this.streams++;
+    if (this.streams <= this.failures) {
+      throw new Error(`stream ${this.streams} failed`);
+    }
+    return this.generate();
+  }
+
+  private async *generate(): AsyncGenerator<number> {
+    yield* this.events;
+  }
+}
+
+class RecordingStrategy implements Strategy<number, number> {
+  events: number[] = [];
+
+  name(): string {
+    return 'RecordingStrategy';
+  }
+
+  async processEvent(event: number): Promise<void> {
+    this.events.push(event);
+  }
+}
+
+class NoopExecutor implements Executor<number> {
+  name(): string {
+    return 'NoopExecutor';
+  }
+
+  async execute(): Promise<void> {}
+}
+
+let engine: Engine<number, number> | undefined;
+
+afterEach(async () => {
+  await engine?.stop(1000);
+  engine = undefined;
+});
+
+function createEngine(
+  collector: Collector<number>,
+  options: CollectorOptions = {},
+  config: EngineConfig = {}
+): { engine: Engine<number, number>; strategy: RecordingStrategy } {
+  const strategy = new RecordingStrategy();
+  engine = new Engine<number, number>({ initialBackoffMs: 10, ...config });
+  engine.addStrategy(strategy);
+  engine.addExecutor(new NoopExecutor());
+  engine.addCollector(collector, options);
+  return { engine, strategy };
+}
+
+describe('collector restarts', () => {
+  test('restarts a failing collector with exponential backoff', async () => {
+    const collector = new FlakyCollector(2, [1]);
+    const { engine, strategy } = createEngine(collector, { restart: { mode: 'on-failure' } });
+    const restarts: [number, number][] = [];
+    engine.on('componentRestarted', ({ attempt, delayMs }) => {
+      restarts.push([attempt, delayMs]);
+    });
+
+    await engine.run();
+    await sleep(100);
+
+    expect(restarts).toEqual([
+      [1, 10],
+      [2, 20],
+    ]);
+    expect(collector.streams).toBe(3);
+    expect(strategy.events).toEqual([1]);
+  });
+
+  test('only restarts a stream that ends normally with mode always', async () => {
+    const ending = new FlakyCollector(0, [1]);
+    createEngine(ending, { restart: { mode: 'on-failure' } });
+    await engine?.run();
+    await sleep(50);
+    expect(ending.streams).toBe(1);
+    await engine?.stop(1000);
+
+    const restarting = new FlakyCollector(0, [1]);
+    const { engine: restartingEngine, strategy } = createEngine(restarting, {
+      restart: { mode: 'always' },
+    });
+    await restartingEngine.run();
+    await sleep(50);
+    expect(restarting.streams).toBeGreaterThanOrEqual(3);
+    expect(strategy.events.slice(0, 3)).toEqual([1, 1, 1]);
+  });
+
+  test('gives up after maxRestarts restarts without an event', async () => {
+    const collector = new FlakyCollector(Number.POSITIVE_INFINITY);
+    const { engine } = createEngine(collector, { restart: { mode: 'on-failure', maxRestarts: 2 } });
+
+    await engine.run();
+    await sleep(150);
+
+    expect(collector.streams).toBe(3);
+    expect(engine.listComponents().find(({ name }) => name === 'flaky')?.status).toBe('stopped');
+  });
+});
+
+/**
+ * Wait until the context of a call is aborted
+ */
+const untilAborted = (context?: ExecutionContext) =>
+  new Promise<void>((resolve) => {
+    context?.signal.addEventListener('abort', () => resolve(), { once: true });
+  });
+
+describe('timeouts', () => {
+  test('aborts event processing that runs past its timeout', async () => {
+    const aborted: number[] = [];
+    const errors: unknown[] = [];
+    engine = new Engine<number, number>({ initialBackoffMs: 10 });
+    engine.addStrategy(
+      {
+        name: () => 'SlowStrategy',
+        processEvent: async (event, _submitter, context) => {
+          await untilAborted(context);
+          aborted.push(event);
+        },
+      },
+      { timeoutMs: 20 }
+    );
+    engine.addExecutor(new NoopExecutor());
+    engine.addCollector(new GeneratorCollector('generator', [1, 2]));
+    engine.on('componentError', ({ error }) => {
+      errors.push(error);
+    });
+
+    await engine.run();
+    await sleep(100);
+
+    expect(aborted).toEqual([1, 2]);
+    expect(errors).toHaveLength(2);
+    expect(errors[0]).toBeInstanceOf(TimeoutError);
+    expect((errors[0] as Error).message).toBe(
+      'Event processing in SlowStrategy timed out after 20ms'
+    );
+  });
+
+  test('rejects the result of an action that runs past its timeout', async () => {
+    const results: unknown[] = [];
+    let aborted = false;
+    engine = new Engine<number, number>({ initialBackoffMs: 10, executeTimeoutMs: 20 });
+    engine.addStrategy({
+      name: () => 'WaitingStrategy',
+      processEvent: async (event, submitter) => {
+        results.push(await submitter.submitAndWait?.(event).catch((e: Error) => e));
+      },
+    });
+    engine.addExecutor({
+      name: () => 'SlowExecutor',
+      execute: async (_action, context) => {
+        await untilAborted(context);
+        aborted = true;
+      },
+    });
+    engine.addCollector(new GeneratorCollector('generator', [1]));
+
+    await engine.run();
+    await sleep(100);
+
+    expect(aborted).toBe(true);
+    expect(results[0]).toBeInstanceOf(TimeoutError);
+    expect((results[0] as Error).message).toBe('Action in SlowExecutor timed out after 20ms');
+  });
+});
+
+describe('stale collector watchdog', () => {
+  test('replaces the silent stream of a generator collector', async () => {
+    const collector = new GeneratorCollector('silent');
+    const { engine } = createEngine(collector, { maxSilenceMs: 50, resubscribeOnSilence: true });
+    let stale = 0;
+    let restarts = 0;
+    engine.on('stale', () => {
+      stale++;
+    });
+    engine.on('componentRestarted', () => {
+      restarts++;
+    });
+
+    await engine.run();
+    await sleep(300);
+
+    expect(stale).toBeGreaterThanOrEqual(2);
+    expect(restarts).toBeGreaterThanOrEqual(2);
+    expect(collector.streams).toBeGreaterThanOrEqual(3);
+  });
+});
+
+describe('runtime changes', () => {
+  test('gives a resumed generator collector a new stream', async () => {
+    const collector = new GeneratorCollector('generator', [1]);
+    const { engine, strategy } = createEngine(collector);
+
+    await engine.run();
+    await sleep(50);
+    expect(engine.pauseComponent('generator')).toBe(true);
+    await sleep(50);
+    expect(engine.listComponents().find(({ name }) => name === 'generator')?.status).toBe('paused');
+
+    expect(engine.resumeComponent('generator')).toBe(true);
+    await sleep(50);
+
+    expect(collector.streams).toBe(2);
+    expect(strategy.events).toEqual([1, 1]);
+  });
+
+  test('removes a generator collector with a pending next()', async () => {
+    const collector = new GeneratorCollector('generator');
+    const { engine } = createEngine(collector);
+
+    await engine.run();
+    await sleep(50);
+    const removed = await Promise.race([engine.removeComponent('generator'), sleep(500)]);
+
+    expect(removed).toBe(true);
+    expect(engine.collectorCount()).toBe(0);
+  });
+
+  /**
+   * Run an engine whose strategy submits every event as an action, executed by an executor
+   * accepting even actions
+   */
+  async function runRoutingEngine(): Promise<{
+    engine: Engine<number, number>;
+    even: number[];
+    odd: number[];
+    oddExecutor: Executor<number>;
+  }> {
+    const even: number[] = [];
+    const odd: number[] = [];
+    engine = new Engine<number, number>({ initialBackoffMs: 10 });
+    engine.addStrategy({
+      name: () => 'ForwardingStrategy',
+      processEvent: async (event, submitter) => {
+        submitter.submit(event);
+      },
+    });
+    engine.addExecutor(
+      {
+        name: () => 'EvenExecutor',
+        execute: async (action) => {
+          even.push(action);
+        },
+      },
+      { accepts: (action) => action % 2 === 0 }
+    );
+    engine.addCollector(new GeneratorCollector('idle'));
+    await engine.run();
+
+    const oddExecutor: Executor<number> = {
+      name: () => 'OddExecutor',
+      execute: async (action) => {
+        odd.push(action);
+      },
+    };
+    return { engine, even, odd, oddExecutor };
+  }
+
+  test('routes actions to an executor added at runtime by its predicate', async () => {
+    const { engine, even, odd, oddExecutor } = await runRoutingEngine();
+
+    engine.addExecutor(oddExecutor, { accepts: (action) => action % 2 === 1 });
+    engine.addCollector(new GeneratorCollector('generator', [1, 2, 3, 4]));
+    await sleep(50);
+
+    expect(even).toEqual([2, 4]);
+    expect(odd).toEqual([1, 3]);
+    expect(engine.unroutedActionCount()).toBe(0);
+  });
+
+  test('counts actions as unrouted once the executor accepting them is removed', async () => {
+    const { engine, even, odd, oddExecutor } = await runRoutingEngine();
+    engine.addExecutor(oddExecutor, { accepts: (action) => action % 2 === 1 });
+    engine.addCollector(new GeneratorCollector('first', [1, 2]));
+    await sleep(50);
+
+    expect(await engine.removeComponent('OddExecutor')).toBe(true);
+    engine.addCollector(new GeneratorCollector('second', [3, 4]));
+    await sleep(50);
+
+    expect(even).toEqual([2, 4]);
+    expect(odd).toEqual([1]);
+    expect(engine.unroutedActionCount()).toBe(1);
+  });
+});
+
+describe('drain', () => {
+  test('does not wait for the timeout to close a generator collector', async () => {
+    const collector = new GeneratorCollector('generator', [1, 2, 3]);
+    const { engine, strategy } = createEngine(collector);
+    let forced: boolean | undefined;
+    engine.on('stopped', (event) => {
+      forced = event.forced;
+    });
+
+    await engine.run();
+    await sleep(50);
+    const startedAt = Date.now();
+    await engine.stop({ mode: 'drain', timeoutMs: 1500 });
+
+    expect(Date.now() - startedAt).toBeLessThan(500);
+    expect(forced).toBe(false);
+    expect(strategy.events).toEqual([1, 2, 3]);
+  });
+
+  test('executes every queued action of a slow strategy and a slow executor', async () => {
+    const executed: number[] = [];
+    engine = new Engine<number, number>({ initialBackoffMs: 10 });
+    engine.addStrategy({
+      name: () => 'SlowStrategy',
+      processEvent: async (event, submitter) => {
+        await sleep(10);
+        submitter.submit(event);
+      },
+    });
+    engine.addExecutor({
+      name: () => 'SlowExecutor',
+      execute: async (action) => {
+        await sleep(20);
+        executed.push(action);
+      },
+    });
+    engine.addCollector(new GeneratorCollector('generator', [1, 2, 3, 4, 5]));
+    let forced: boolean | undefined;
+    engine.on('stopped', (event) => {
+      forced = event.forced;
+    });
+
+    await engine.run();
+    await sleep(5);
+    await engine.stop({ mode: 'drain', timeoutMs: 2000 });
+
+    expect(executed).toEqual([1, 2, 3, 4, 5]);
+    expect(forced).toBe(false);
+  });
+
+  test('forces the stop when draining runs past the timeout', async () => {
+    const executed: number[] = [];
+    engine = new Engine<number, number>({ initialBackoffMs: 10 });
+    engine.addStrategy({
+      name: () => 'SubmittingStrategy',
+      processEvent: async (event, submitter) => {
+        submitter.submit(event);
+      },
+    });
+    engine.addExecutor({
+      name: () => 'SlowExecutor',
+      execute: async (action) => {
+        await sleep(100);
+        executed.push(action);
+      },
+    });
+    engine.addCollector(new GeneratorCollector('generator', [1, 2, 3, 4, 5]));
+    let forced: boolean | undefined;
+    engine.on('stopped', (event) => {
+      forced = event.forced;
+    });
+
+    await engine.run();
+    await sleep(20);
+    const startedAt = Date.now();
+    await engine.stop({ mode: 'drain', timeoutMs: 150 });
+
+    expect(Date.now() - startedAt).toBeLessThan(400);
+    expect(forced).toBe(true);
+    expect(executed.length).toBeLessThan(5);
+  });
+});
+
+describe('partitioned strategies', () => {
+  test('does not let a busy partition hold up other partitions', async () => {
+    const collector = new GeneratorCollector('generator', [1, 2, 3, 4, 5, 6, 7, 8, 100]);
+    const processedAt = new Map<number, number>();
+    const strategy: Strategy<number, number> = {
+      name: () => 'PartitionedStrategy',
+      processEvent: async (event) => {
+        if (event < 100) await sleep(50);
+        processedAt.set(event, Date.now());
+      },
+    };
+    engine = new Engine<number, number>();
+    engine.addStrategy(strategy, {
+      concurrency: 4,
+      partitionKey: (event) => (event < 100 ? 'hot' : 'cold'),
+    });
+    engine.addExecutor(new NoopExecutor());
+    engine.addCollector(collector);
+
+    const startedAt = Date.now();
+    await engine.run();
+    await sleep(100);
+
+    expect((processedAt.get(100) ?? Number.POSITIVE_INFINITY) - startedAt).toBeLessThan(50);
+    expect(processedAt.has(8)).toBe(false);
+    await sleep(400);
+    expect([...processedAt.keys()]).toEqual([100, 1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+});
+
+/**
+ * Get a port no server listens on
+ */
+function freePort(): number {
+  const server = Bun.serve({ port: 0, fetch: () => new Response() });
+  const port = server.port as number;
+  server.stop(true);
+  return port;
+}
+
+describe('metrics', () => {
+  test('serves the engine metrics on metricsPort while running', async () => {
+    const port = freePort();
+    const { engine } = createEngine(
+      new GeneratorCollector('numbers', [1, 2, 3]),
+      {},
+      {
+        metricsPort: port,
+      }
+    );
+
+    await engine.run();
+    await sleep(50);
+    const response = await fetch(`http://127.0.0.1:${port}/metrics`);
+    const body = await response.text();
+
+    expect(response.headers.get('Content-Type')).toStartWith('text/plain; version=0.0.4');
+    expect(body).toContain('# TYPE frogberry_strategy_events_total counter');
+    expect(body).toContain(
+      'frogberry_strategy_events_total{strategy="RecordingStrategy",result="success"} 3'
+    );
+    expect(body).toContain('frogberry_collector_events_total{collector="numbers"} 3');
+
+    await engine.stop(1000);
+    await expect(fetch(`http://127.0.0.1:${port}/metrics`)).rejects.toThrow();
+  });
+
+  test('labels the sampled gauges with the engine name and drops them when it stops', async () => {
+    const metrics = new MetricsRegistry();
+    const engines = ['a', 'b'].map((name) => {
+      const engine = new Engine<number, number>({ metrics, name });
+      engine.addStrategy(new RecordingStrategy());
+      engine.addExecutor(new NoopExecutor());
+      engine.addCollector(new GeneratorCollector('numbers'));
+      return engine;
+    });
+
+    try {
+      for (const engine of engines) {
+        await engine.run();
+      }
+      const lag = (engine: string) =>
+        `frogberry_receiver_lag{engine="${engine}",kind="strategy",component="RecordingStrategy"} 0`;
+      expect(metrics.expose()).toContain(lag('a'));
+      expect(metrics.expose()).toContain(lag('b'));
+
+      await engines[0].stop(1000);
+      const exposed = metrics.expose();
+      expect(exposed).not.toContain(lag('a'));
+      expect(exposed).toContain(lag('b'));
+    } finally {
+      await Promise.all(engines.map((engine) => engine.stop(1000)));
+    }
+  });
+
+  test('does not start when a server cannot bind its port', async () => {
+    const taken = Bun.serve({ port: 0, fetch: () => new Response() });
+    const metricsPort = freePort();
+    const { engine } = createEngine(
+      new GeneratorCollector('numbers'),
+      {},
+      {
+        metricsPort,
+        adminPort: taken.port,
+      }
+    );
+
+    try {
+      await expect(engine.run()).rejects.toThrow();
+      expect(engine.isRunning()).toBe(false);
+      // The metrics server started before the admin server is stopped again
+      await expect(fetch(`http://127.0.0.1:${metricsPort}/metrics`)).rejects.toThrow();
+    } finally {
+      taken.stop(true);
+    }
+
+    await engine.run();
+    expect(engine.isRunning()).toBe(true);
+  });
+});
+
+describe('pooled components', () => {
+  const events = Array.from({ length: 20 }, (_, i) => i + 1);
+  const config: EngineConfig = {
+    initialBackoffMs: 10,
+    maxBackoffMs: 10,
+    maxConsecutiveErrors: 0,
+    stopOnCriticalError: true,
+  };
+
+  test('stops a pooled strategy once an event asks its loop to exit', async () => {
+    const processed: number[] = [];
+    engine = new Engine<number, number>(config);
+    engine.addStrategy(
+      {
+        name: () => 'FailingStrategy',
+        processEvent: async (event) => {
+          processed.push(event);
+          await sleep(30);
+          throw new Error('failed');
+        },
+      },
+      { concurrency: 2 }
+    );
+    engine.addExecutor(new NoopExecutor());
+    engine.addCollector(new GeneratorCollector('generator', events));
+
+    await engine.run();
+    await sleep(5);
+    await engine.stop({ mode: 'drain', timeoutMs: 2000 });
+
+    expect(processed.length).toBeGreaterThan(0);
+    expect(processed.length).toBeLessThan(5);
+  });
+
+  test('stops a pooled executor once an action asks its loop to exit', async () => {
+    const executed: number[] = [];
+    engine = new Engine<number, number>(config);
+    engine.addStrategy({
+      name: () => 'SubmittingStrategy',
+      processEvent: async (event, submitter) => {
+        submitter.submit(event);
+      },
+    });
+    engine.addExecutor(
+      {
+        name: () => 'FailingExecutor',
+        execute: async (action) => {
+          executed.push(action);
+          await sleep(30);
+          throw new Error('failed');
+        },
+      },
+      { concurrency: 2 }
+    );
+    engine.addCollector(new GeneratorCollector('generator', events));
+
+    await engine.run();
+    await sleep(5);
+    await engine.stop({ mode: 'drain', timeoutMs: 2000 });
+
+    expect(executed.length).toBeGreaterThan(0);
+    expect(executed.length).toBeLessThan(5);
+  });
+});
+
+describe('lifecycle events', () => {
+  test('reports components starting and stopping, and the engine stopping', async () => {
+    const { engine } = createEngine(new GeneratorCollector('generator'));
+    const events: string[] = [];
+    engine.on('componentStarted', ({ kind, name }) => {
+      events.push(`started ${kind} ${name}`);
+    });
+    engine.on('componentStopped', ({ kind, name }) => {
+      events.push(`stopped ${kind} ${name}`);
+    });
+    engine.on('stopped', ({ forced }) => {
+      events.push(`engine stopped, forced: ${forced}`);
+    });
+
+    await engine.run();
+    await sleep(20);
+    await engine.stop(1000);
+
+    expect(events.filter((event) => event.startsWith('started')).sort()).toEqual([
+      'started collector generator',
+      'started executor NoopExecutor',
+      'started strategy RecordingStrategy',
+    ]);
+    expect(events.filter((event) => event.startsWith('stopped')).sort()).toEqual([
+      'stopped collector generator',
+      'stopped executor NoopExecutor',
+      'stopped strategy RecordingStrategy',
+    ]);
+    expect(events.at(-1)).toBe('engine stopped, forced: false');
+  });
+
+  test('reports errors with their consecutive count, then backoff', async () => {
+    engine = new Engine<number, number>({ initialBackoffMs: 10, maxConsecutiveErrors: 1 });
+    engine.addStrategy({
+      name: () => 'FailingStrategy',
+      processEvent: async (event) => {
+        throw new Error(`event ${event} failed`);
+      },
+    });
+    engine.addExecutor(new NoopExecutor());
+    engine.addCollector(new GeneratorCollector('generator', [1, 2]));
+    const errors: [string, string, number][] = [];
+    const backoffs: [string, number, number][] = [];
+    engine.on('componentError', ({ kind, name, error, consecutiveErrors }) => {
+      expect(kind).toBe('strategy');
+      errors.push([name, (error as Error).message, consecutiveErrors]);
+    });
+    engine.on('backoff', ({ name, backoffMs, consecutiveErrors }) => {
+      backoffs.push([name, backoffMs, consecutiveErrors]);
+    });
+
+    await engine.run();
+    await sleep(100);
+
+    expect(errors).toEqual([
+      ['FailingStrategy', 'event 1 failed', 1],
+      ['FailingStrategy', 'event 2 failed', 2],
+    ]);
+    expect(backoffs).toEqual([['FailingStrategy', 20, 2]]);
+  });
+
+  test('reports a strategy that lags behind the event channel', async () => {
+    engine = new Engine<number, number>({
+      eventChannelCapacity: 2,
+      eventChannelConfig: { throwOnLag: false, lagReportInterval: 1 },
+    });
+    engine.addStrategy({
+      name: () => 'SlowStrategy',
+      processEvent: () => sleep(50),
+    });
+    engine.addExecutor(new NoopExecutor());
+    engine.addCollector(new GeneratorCollector('generator', [1, 2, 3, 4, 5, 6]));
+    const lags: [string, number][] = [];
+    engine.on('lagged', ({ name, lagCount }) => {
+      lags.push([name, lagCount]);
+    });
+
+    await engine.run();
+    await sleep(20);
+
+    expect(lags.length).toBeGreaterThan(0);
+    expect(lags.at(-1)).toEqual(['SlowStrategy', 3]);
+  });
+
+  test('keeps running when a listener throws', async () => {
+    const { engine, strategy } = createEngine(new GeneratorCollector('generator', [1, 2]));
+    engine.on('componentStarted', () => {
+      throw new Error('listener failed');
+    });
+
+    await engine.run();
+    await sleep(20);
+
+    expect(strategy.events).toEqual([1, 2]);
+  });
+});
+
+/**
+ * Collector of a fixed list of events of any type, staying silent afterwards
+ */
+class ListCollector<T> implements Collector<T> {
+  constructor(
+    private readonly collectorName: string,
+    private readonly events: T[]
+  ) {}
+
+  name(): string {
+    return this.collectorName;
+  }
+
+  async getEventStream(): Promise<CollectorStream<T>> {
+    const events = this.events;
+    return (async function* () {
+      yield* events;
+      await new Promise(() => {});
+    })();
+  }
+}
+
+/**
+ * Strategy recording the events it receives
+ */
+function recorder<T>(name: string): Strategy<T, string> & { events: T[] } {
+  const events: T[] = [];
+  return {
+    events,
+    name: () => name,
+    processEvent: async (event) => {
+      events.push(event);
+    },
+  };
+}
+
+describe('event streams', () => {
+  type Streams = { default: number | string; blocks: number; logs: string };
+
+  function createStreamEngine(): Engine<number | string, string, Streams> {
+    const streamEngine = new Engine<number | string, string, Streams>();
+    engine = streamEngine as unknown as Engine<number, number>;
+    streamEngine.addCollector('blocks', new ListCollector('blocks', [1, 2]));
+    streamEngine.addCollector('logs', new ListCollector('logs', ['a', 'b']));
+    streamEngine.addExecutor({ name: () => 'NoopExecutor', execute: async () => {} });
+    return streamEngine;
+  }
+
+  test('delivers only the events of the subscribed streams', async () => {
+    const engine = createStreamEngine();
+    const blocks = recorder<number>('BlockStrategy');
+    const logs = recorder<string>('LogStrategy');
+    const everything = recorder<number | string>('AllStrategy');
+    engine.addStrategy(blocks, { subscribe: ['blocks'] });
+    engine.addStrategy(logs, { subscribe: ['logs'] });
+    engine.addStrategy(everything);
+
+    await engine.run();
+    await sleep(20);
+
+    expect(blocks.events).toEqual([1, 2]);
+    expect(logs.events).toEqual(['a', 'b']);
+    expect([...everything.events].sort()).toEqual([1, 2, 'a', 'b']);
+  });
+
+  test('subscribes a strategy to several streams', async () => {
+    const engine = createStreamEngine();
+    const both = recorder<number | string>('BothStrategy');
+    engine.addStrategy(both, { subscribe: ['blocks', 'logs'] });
+
+    await engine.run();
+    await sleep(20);
+
+    expect([...both.events].sort()).toEqual([1, 2, 'a', 'b']);
+  });
+
+  test('keeps events of the default stream from named subscriptions', async () => {
+    const engine = createStreamEngine();
+    engine.addCollector(new ListCollector<number | string>('unnamed', [3]));
+    const blocks = recorder<number>('BlockStrategy');
+    const unnamed = recorder<number | string>('DefaultStrategy');
+    engine.addStrategy(blocks, { subscribe: ['blocks'] });
+    engine.addStrategy(unnamed, { subscribe: [DEFAULT_STREAM] });
+
+    await engine.run();
+    await sleep(20);
+
+    expect(blocks.events).toEqual([1, 2]);
+    expect(unnamed.events).toEqual([3]);
+  });
+
+  test('type-checks strategies against the streams they subscribe to', () => {
+    const engine = createStreamEngine();
+
+    // @ts-expect-error a strategy of logs cannot subscribe to blocks
+    engine.addStrategy(recorder<string>('LogStrategy'), { subscribe: ['blocks'] });
+    // @ts-expect-error a collector of blocks cannot publish on the logs stream
+    engine.addCollector('logs', new ListCollector('blocks', [1]));
+  });
+});
+
+describe('action routing', () => {
+  type Action = { kind: 'tx' | 'telegram' | 'log'; id: number };
+
+  /**
+   * Executor recording the ids of the actions it executes
+   */
+  function executorOf(name: string): Executor<Action> & { ids: number[] } {
+    const ids: number[] = [];
+    return {
+      ids,
+      name: () => name,
+      execute: async (action) => {
+        ids.push(action.id);
+      },
+    };
+  }
+
+  function createRoutingEngine(actions: Action[]): Engine<number, Action> {
+    const routingEngine = new Engine<number, Action>();
+    engine = routingEngine as unknown as Engine<number, number>;
+    routingEngine.addCollector(new GeneratorCollector('generator', [1]));
+    routingEngine.addStrategy({
+      name: () => 'RoutingStrategy',
+      processEvent: async (_event, submitter) => {
+        for (const action of actions) {
+          submitter.submit(action);
+        }
+      },
+    });
+    return routingEngine;
+  }
+
+  test('delivers actions only to the executors that accept them', async () => {
+    const engine = createRoutingEngine([
+      { kind: 'tx', id: 1 },
+      { kind: 'telegram', id: 2 },
+      { kind: 'tx', id: 3 },
+    ]);
+    const sender = executorOf('TxExecutor');
+    const telegram = executorOf('TelegramExecutor');
+    const audit = executorOf('AuditExecutor');
+    engine.addExecutor(sender, { accepts: routeBy('kind', 'tx') });
+    engine.addExecutor(telegram, { accepts: (action) => action.kind === 'telegram' });
+    engine.addExecutor(audit);
+
+    await engine.run();
+    await sleep(20);
+
+    expect(sender.ids).toEqual([1, 3]);
+    expect(telegram.ids).toEqual([2]);
+    expect(audit.ids).toEqual([1, 2, 3]);
+    expect(engine.unroutedActionCount()).toBe(0);
+  });
+
+  test('counts actions that no executor accepts', async () => {
+    const engine = createRoutingEngine([
+      { kind: 'log', id: 1 },
+      { kind: 'tx', id: 2 },
+      { kind: 'log', id: 3 },
+    ]);
+    const sender = executorOf('TxExecutor');
+    engine.addExecutor(sender, { accepts: routeBy('kind', 'tx') });
+
+    await engine.run();
+    await sleep(20);
+
+    expect(sender.ids).toEqual([2]);
+    expect(engine.unroutedActionCount()).toBe(2);
+    expect(engine.metricsRegistry().expose()).toContain('frogberry_unrouted_actions_total 2');
+  });
+
+  test('rejects the result of an action that no executor accepts', async () => {
+    const results: unknown[] = [];
+    const routingEngine = new Engine<number, Action>();
+    engine = routingEngine as unknown as Engine<number, number>;
+    routingEngine.addCollector(new GeneratorCollector('generator', [1]));
+    routingEngine.addStrategy({
+      name: () => 'WaitingStrategy',
+      processEvent: async (_event, submitter) => {
+        results.push(await submitter.submitAndWait?.({ kind: 'log', id: 1 }).catch((e) => e));
+      },
+    });
+    routingEngine.addExecutor(executorOf('TxExecutor'), { accepts: routeBy('kind', 'tx') });
+
+    await routingEngine.run();
+    await sleep(20);
+
+    expect(results).toHaveLength(1);
+    expect((results[0] as Error).message).toBe('Action not accepted by any receiver');
+  });
+});
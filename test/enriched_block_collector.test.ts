@@ -0,0 +1,232 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { http, type Hash, createPublicClient } from 'viem';
+import {
+  type EnrichedBlock,
+  EnrichedBlockCollector,
+  type EnrichedBlockCollectorConfig,
+} from '../collector/enriched_block_collector';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+const hex = (n: number) => `0x${n.toString(16)}`;
+const hashOf = (n: number) => `0x${n.toString(16).padStart(64, '0')}` as Hash;
+const from = `0x${'1'.repeat(40)}`;
+const to = `0x${'2'.repeat(40)}`;
+const transactions = [hashOf(1000), hashOf(1001), hashOf(1002)];
+
+const block = {
+  number: hex(100),
+  hash: hashOf(100),
+  parentHash: hashOf(99),
+  transactions,
+  timestamp: '0x1',
+  gasUsed: '0x0',
+  gasLimit: '0x0',
+  baseFeePerGas: '0x1',
+  difficulty: '0x0',
+  logsBloom: null,
+  miner: `0x${'0'.repeat(40)}`,
+  extraData: '0x',
+  nonce: '0x0',
+  size: '0x0',
+  stateRoot: hashOf(0),
+  receiptsRoot: hashOf(0),
+  transactionsRoot: hashOf(0),
+  sha3Uncles: hashOf(0),
+  uncles: [],
+  mixHash: hashOf(0),
+};
+
+const receipt = (index: number) => ({
+  transactionHash: transactions[index],
+  transactionIndex: hex(index),
+  blockHash: block.hash,
+  blockNumber: block.number,
+  from,
+  to,
+  cumulativeGasUsed: '0x5208',
+  gasUsed: '0x5208',
+  effectiveGasPrice: '0x1',
+  logs: [],
+  logsBloom: `0x${'0'.repeat(512)}`,
+  status: '0x1',
+  type: '0x2',
+  contractAddress: null,
+});
+
+const trace = (index: number) => ({
+  txHash: transactions[index],
+  result: {
+    type: 'CALL',
+    from,
+    to,
+    value: '0x10',
+    gas: '0x100',
+    gasUsed: '0x50',
+    input: '0x',
+    calls: [{ type: 'STATICCALL', from: to, gas: '0x10', gasUsed: '0x5', input: '0x' }],
+  },
+});
+
+/**
+ * Mock node serving block 100 with three transactions
+ */
+interface MockNode {
+  url: string;
+  /** Requests received, by method */
+  requests: { method: string; params: unknown[] }[];
+  blockReceipts: boolean;
+  /** Number of eth_getBlockReceipts requests left to fail */
+  receiptFailures: number;
+}
+
+const servers: Server[] = [];
+
+afterEach(() => {
+  for (const server of servers.splice(0)) {
+    server.stop(true);
+  }
+});
+
+function mockNode(): MockNode {
+  const node: MockNode = { url: '', requests: [], blockReceipts: true, receiptFailures: 0 };
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const { id, method, params } = (await req.json()) as {
+        id: number;
+        method: string;
+        params: unknown[];
+      };
+      node.requests.push({ method, params });
+      const reply = (result: unknown) => Response.json({ jsonrpc: '2.0', id, result });
+
+      switch (method) {
+        case 'eth_blockNumber':
+          return reply(block.number);
+        case 'eth_getBlockByNumber':
+        case 'eth_getBlockByHash':
+          return reply(block);
+        case 'eth_getBlockReceipts':
+          if (!node.blockReceipts) {
+            return Response.json({
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32601, message: 'the method eth_getBlockReceipts does not exist' },
+            });
+          }
+          if (node.receiptFailures > 0) {
+            node.receiptFailures--;
+            return Response.json({
+              jsonrpc: '2.0',
+              id,
+              error: { code: -32000, message: 'header not found' },
+            });
+          }
+          return reply(transactions.map((_, index) => receipt(index)));
+        case 'eth_getTransactionReceipt':
+          return reply(receipt(transactions.indexOf(params[0] as Hash)));
+        case 'debug_traceBlockByHash':
+          return reply(transactions.map((_, index) => trace(index)));
+      }
+      return reply(null);
+    },
+  });
+  servers.push(server);
+  node.url = `http://localhost:${server.port}`;
+  return node;
+}
+
+async function firstBlock(
+  node: MockNode,
+  config: EnrichedBlockCollectorConfig = {}
+): Promise<EnrichedBlock> {
+  const client = createPublicClient({ transport: http(node.url, { retryCount: 0 }) });
+  const collector = new EnrichedBlockCollector(client, { pollingIntervalMs: 10, ...config });
+  const stream = await collector.getEventStream();
+  try {
+    const result = await stream.next();
+    return result.value;
+  } finally {
+    await stream.return?.();
+  }
+}
+
+describe('EnrichedBlockCollector', () => {
+  test('emits blocks with their receipts in transaction order', async () => {
+    const node = mockNode();
+
+    const enriched = await firstBlock(node);
+
+    expect(enriched.block.number).toBe(100n);
+    expect(enriched.receipts.map((r) => r.transactionIndex)).toEqual([0, 1, 2]);
+    expect(enriched.traces).toBeUndefined();
+  });
+
+  test('fetches receipts per transaction without eth_getBlockReceipts', async () => {
+    const node = mockNode();
+    node.blockReceipts = false;
+
+    const enriched = await firstBlock(node);
+
+    expect(enriched.receipts.map((r) => r.transactionHash)).toEqual(transactions);
+    const methods = node.requests.map((request) => request.method);
+    expect(methods.filter((method) => method === 'eth_getTransactionReceipt')).toHaveLength(3);
+  });
+
+  test('traces the calls of a block by its hash', async () => {
+    const node = mockNode();
+
+    const enriched = await firstBlock(node, { traces: true });
+
+    expect(enriched.traces).toHaveLength(3);
+    expect(enriched.traces?.[0].value).toBe(16n);
+    expect(enriched.traces?.[0].calls?.[0].gasUsed).toBe(5n);
+    const traceRequest = node.requests.find(({ method }) => method === 'debug_traceBlockByHash');
+    expect(traceRequest?.params[0]).toBe(block.hash);
+  });
+
+  test('retries a block whose receipts cannot be fetched yet', async () => {
+    const node = mockNode();
+    node.receiptFailures = 2;
+
+    const enriched = await firstBlock(node, { enrichRetryDelayMs: 10 });
+
+    expect(enriched.block.number).toBe(100n);
+    expect(enriched.receipts).toHaveLength(3);
+    const methods = node.requests.map((request) => request.method);
+    expect(methods.filter((method) => method === 'eth_getBlockReceipts')).toHaveLength(3);
+  });
+
+  test('fails the stream once the retries are used up', async () => {
+    const node = mockNode();
+    node.receiptFailures = 3;
+
+    const enriching = firstBlock(node, { enrichRetries: 2, enrichRetryDelayMs: 10 });
+
+    await expect(enriching).rejects.toThrow('header not found');
+    expect(node.receiptFailures).toBe(0);
+  });
+
+  test('skips a block that cannot be enriched with onEnrichError', async () => {
+    const node = mockNode();
+    node.receiptFailures = 2;
+    const skipped: bigint[] = [];
+    const client = createPublicClient({ transport: http(node.url, { retryCount: 0 }) });
+    const collector = new EnrichedBlockCollector(client, {
+      pollingIntervalMs: 10,
+      enrichRetries: 1,
+      enrichRetryDelayMs: 10,
+      onEnrichError: (_, block) => skipped.push(block.number as bigint),
+    });
+
+    const stream = await collector.getEventStream();
+    stream.next();
+    await Bun.sleep(100);
+    await stream.return?.();
+
+    expect(skipped).toEqual([100n]);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, expect, test } from 'bun:test';
+import { TypedEventEmitter } from '../utils/event_emitter';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+interface Events {
+  started: { name: string };
+  stopped: { forced: boolean };
+}
+
+describe('TypedEventEmitter', () => {
+  test('calls the listeners of an event with its payload', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const started: string[] = [];
+    const stopped: boolean[] = [];
+    emitter.on('started', ({ name }) => {
+      started.push(name);
+    });
+    emitter.on('stopped', ({ forced }) => {
+      stopped.push(forced);
+    });
+
+    emitter.emit('started', { name: 'a' });
+    emitter.emit('started', { name: 'b' });
+
+    expect(started).toEqual(['a', 'b']);
+    expect(stopped).toEqual([]);
+  });
+
+  test('removes a listener with off or the returned function', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const calls: string[] = [];
+    const first = () => {
+      calls.push('first');
+    };
+    emitter.on('started', first);
+    const offSecond = emitter.on('started', () => {
+      calls.push('second');
+    });
+
+    emitter.off('started', first);
+    offSecond();
+    emitter.emit('started', { name: 'a' });
+
+    expect(calls).toEqual([]);
+    expect(emitter.listenerCount('started')).toBe(0);
+  });
+
+  test('calls a once listener a single time', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    let calls = 0;
+    emitter.once('started', () => {
+      calls++;
+    });
+
+    emitter.emit('started', { name: 'a' });
+    emitter.emit('started', { name: 'b' });
+
+    expect(calls).toBe(1);
+    expect(emitter.listenerCount('started')).toBe(0);
+  });
+
+  test('keeps calling listeners after one throws or rejects', async () => {
+    const emitter = new TypedEventEmitter<Events>();
+    const calls: string[] = [];
+    emitter.on('started', () => {
+      throw new Error('listener failed');
+    });
+    emitter.on('started', async () => {
+      throw new Error('listener rejected');
+    });
+    emitter.on('started', ({ name }) => {
+      calls.push(name);
+    });
+
+    expect(() => emitter.emit('started', { name: 'a' })).not.toThrow();
+    await Bun.sleep(0);
+
+    expect(calls).toEqual(['a']);
+  });
+
+  test('removes the listeners of one event or of all events', () => {
+    const emitter = new TypedEventEmitter<Events>();
+    emitter.on('started', () => {});
+    emitter.on('stopped', () => {});
+
+    emitter.removeAllListeners('started');
+    expect(emitter.listenerCount('started')).toBe(0);
+    expect(emitter.listenerCount('stopped')).toBe(1);
+
+    emitter.removeAllListeners();
+    expect(emitter.listenerCount('stopped')).toBe(0);
+  });
+});
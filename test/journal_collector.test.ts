@@ -0,0 +1,188 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { JournalingCollector, ReplayCollector } from '../collector/journal_collector';
+import type { Collector, CollectorStream } from '../types';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+type Swap = { pool: string; amount: bigint };
+
+/**
+ * Collector emitting a list of events, then ending its stream
+ */
+class ListCollector<T> implements Collector<T> {
+  private events: T[];
+  returned = false;
+
+  constructor(events: T[]) {
+    this.events = events;
+  }
+
+  name(): string {
+    return 'ListCollector';
+  }
+
+  async getEventStream(): Promise<CollectorStream<T>> {
+    const events = [...this.events];
+    return {
+      next: async () => {
+        const event = events.shift();
+        return event === undefined
+          ? { done: true, value: undefined }
+          : { done: false, value: event };
+      },
+      return: async () => {
+        this.returned = true;
+        return { done: true, value: undefined };
+      },
+    };
+  }
+}
+
+async function collectAll<T>(stream: CollectorStream<T>): Promise<T[]> {
+  const events: T[] = [];
+  for (let result = await stream.next(); !result.done; result = await stream.next()) {
+    events.push(result.value);
+  }
+  return events;
+}
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function journalPath(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'frogberry-journal-'));
+  dirs.push(dir);
+  return join(dir, 'events.jsonl');
+}
+
+const swaps: Swap[] = [
+  { pool: 'WETH/USDC', amount: 10n ** 18n },
+  { pool: 'WBTC/USDC', amount: 2n },
+];
+
+describe('JournalingCollector', () => {
+  test('emits the events of the inner collector and records them', async () => {
+    const path = journalPath();
+    const collector = new JournalingCollector(new ListCollector(swaps), path);
+
+    expect(collector.name()).toBe('ListCollector');
+    expect(await collectAll(await collector.getEventStream())).toEqual(swaps);
+
+    const lines = readFileSync(path, 'utf8').trimEnd().split('\n');
+    expect(lines).toHaveLength(2);
+    expect(JSON.parse(lines[0]).event).toEqual({
+      pool: 'WETH/USDC',
+      amount: '1000000000000000000n',
+    });
+    expect(JSON.parse(lines[0]).time).toBeNumber();
+  });
+
+  test('appends to an existing journal', async () => {
+    const path = journalPath();
+
+    await collectAll(
+      await new JournalingCollector(new ListCollector([swaps[0]]), path).getEventStream()
+    );
+    await collectAll(
+      await new JournalingCollector(new ListCollector([swaps[1]]), path).getEventStream()
+    );
+
+    expect(
+      await collectAll(
+        await new ReplayCollector<Swap>(path, { speed: Number.POSITIVE_INFINITY }).getEventStream()
+      )
+    ).toEqual(swaps);
+  });
+
+  test('closes the inner stream when returned', async () => {
+    const inner = new ListCollector(swaps);
+    const stream = await new JournalingCollector(inner, journalPath()).getEventStream();
+
+    await stream.next();
+    await stream.return?.();
+
+    expect(inner.returned).toBe(true);
+  });
+
+  test('closes the inner stream when the journal cannot be opened', async () => {
+    const inner = new ListCollector(swaps);
+    const path = join(journalPath(), 'missing', 'events.jsonl');
+
+    await expect(new JournalingCollector(inner, path).getEventStream()).rejects.toThrow('ENOENT');
+
+    expect(inner.returned).toBe(true);
+  });
+});
+
+describe('ReplayCollector', () => {
+  test('replays recorded events with their bigints', async () => {
+    const path = journalPath();
+    await collectAll(
+      await new JournalingCollector(new ListCollector(swaps), path).getEventStream()
+    );
+
+    const replay = new ReplayCollector<Swap>(path, {
+      speed: Number.POSITIVE_INFINITY,
+      name: 'SwapReplay',
+    });
+
+    expect(replay.name()).toBe('SwapReplay');
+    expect(await collectAll(await replay.getEventStream())).toEqual(swaps);
+    // Every stream starts from the top
+    expect(await collectAll(await replay.getEventStream())).toEqual(swaps);
+  });
+
+  test('keeps the recorded spacing, scaled by the speed', async () => {
+    const path = journalPath();
+    writeFileSync(
+      path,
+      [
+        { time: 1_000, event: 1 },
+        { time: 1_400, event: 2 },
+        { time: 1_800, event: 3 },
+      ]
+        .map((entry) => JSON.stringify(entry))
+        .join('\n')
+    );
+
+    const startedAt = Date.now();
+    const events = await collectAll(
+      await new ReplayCollector<number>(path, { speed: 4 }).getEventStream()
+    );
+    const elapsedMs = Date.now() - startedAt;
+
+    expect(events).toEqual([1, 2, 3]);
+    // 800ms recorded at 4x speed
+    expect(elapsedMs).toBeGreaterThanOrEqual(190);
+    expect(elapsedMs).toBeLessThan(400);
+  });
+
+  test('skips blank lines and reports the location of invalid entries', async () => {
+    const path = journalPath();
+    writeFileSync(path, '{"time":1,"event":1}\n\n{"time":2,\n');
+    const stream = await new ReplayCollector<number>(path, {
+      speed: Number.POSITIVE_INFINITY,
+    }).getEventStream();
+
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    await expect(stream.next()).rejects.toThrow(`Invalid journal entry at ${path}:3`);
+  });
+
+  test('rejects a speed that is not positive', () => {
+    expect(() => new ReplayCollector('events.jsonl', { speed: 0 })).toThrow(
+      'Invalid replay speed: 0'
+    );
+    expect(() => new ReplayCollector('events.jsonl', { speed: Number.NaN })).toThrow(
+      'Invalid replay speed: NaN'
+    );
+  });
+});
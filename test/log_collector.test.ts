@@ -0,0 +1,403 @@
+import { describe, expect, test } from 'bun:test';
+import {
+  type Hash,
+  type Log,
+  type PublicClient,
+  type RpcLog,
+  numberToHex,
+  parseAbiItem,
+} from 'viem';
+import { LogCollector } from '../collector/log_collector';
+import type { CollectorStream } from '../types';
+import { MemoryCheckpointStore } from '../utils/checkpoint';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+interface Subscription {
+  params: { address?: unknown; events?: unknown; poll?: boolean };
+  onLogs: (logs: Log[]) => void;
+  onError: (error: Error) => void;
+  active: boolean;
+}
+
+interface GetLogsParams {
+  address?: unknown;
+  topics?: unknown;
+  fromBlock: Hash;
+  toBlock: Hash;
+}
+
+const hashOf = (blockNumber: bigint) => `0x${blockNumber.toString(16).padStart(64, '0')}` as Hash;
+
+/**
+ * Fake HTTP client of a chain with a log in every seventh block
+ */
+class FakeChain {
+  head = 1000n;
+  /** Largest getLogs range the node accepts */
+  maxRange = 1000n;
+  getLogsCalls: [bigint, bigint][] = [];
+  /** Filters sent with eth_getLogs */
+  getLogsParams: GetLogsParams[] = [];
+  failBlockNumber = 0;
+  transport = { type: 'http' };
+  subscriptions: Subscription[] = [];
+  /** Errors failing the next log subscriptions, one each */
+  subscribeErrors: Error[] = [];
+  /** Whether the node supports log filters */
+  filters = false;
+  newFilterParams: unknown[] = [];
+  /** Logs returned by the next eth_getFilterChanges */
+  filterChanges: Partial<RpcLog>[] = [];
+
+  readonly client = {
+    transport: this.transport,
+    getBlockNumber: async () => {
+      if (this.failBlockNumber > 0) {
+        this.failBlockNumber--;
+        throw new Error('connection refused');
+      }
+      return this.head;
+    },
+    getBlock: async ({ blockNumber }: { blockNumber?: bigint } = {}) => {
+      const number = blockNumber ?? this.head;
+      return { number, hash: hashOf(number), parentHash: hashOf(number - 1n) };
+    },
+    request: async ({ method, params }: { method: string; params: [GetLogsParams] }) => {
+      if (method === 'eth_newFilter' && this.filters) {
+        this.newFilterParams.push(params[0]);
+        return '0x1';
+      }
+      if (method === 'eth_getFilterChanges' && this.filters) {
+        return this.filterChanges.splice(0);
+      }
+      if (method === 'eth_uninstallFilter' && this.filters) {
+        return true;
+      }
+      if (method !== 'eth_getLogs') {
+        throw new Error(`the method ${method} does not exist`);
+      }
+      this.getLogsParams.push(params[0]);
+      const fromBlock = BigInt(params[0].fromBlock);
+      const toBlock = BigInt(params[0].toBlock);
+      this.getLogsCalls.push([fromBlock, toBlock]);
+      if (toBlock - fromBlock + 1n > this.maxRange) {
+        throw Object.assign(new Error('query returned more than 10000 results'), { code: -32005 });
+      }
+      const logs: Partial<RpcLog>[] = [];
+      for (let block = fromBlock; block <= toBlock; block++) {
+        if (block % 7n === 0n) {
+          logs.push({
+            blockNumber: numberToHex(block),
+            blockHash: hashOf(block),
+            logIndex: '0x0',
+            removed: false,
+            topics: [],
+          });
+        }
+      }
+      return logs;
+    },
+    watchEvent: ({
+      onLogs,
+      onError,
+      ...params
+    }: Subscription['params'] & Pick<Subscription, 'onLogs' | 'onError'>) => {
+      const subscription = { params, onLogs, onError, active: true };
+      this.subscriptions.push(subscription);
+      const error = this.subscribeErrors.shift();
+      if (error) {
+        queueMicrotask(() => onError(error));
+      }
+      return () => {
+        subscription.active = false;
+      };
+    },
+  } as unknown as PublicClient;
+
+  /**
+   * Push logs to the active subscriptions
+   */
+  emit(...logs: Partial<Log>[]): void {
+    for (const subscription of this.subscriptions) {
+      if (subscription.active) subscription.onLogs(logs as Log[]);
+    }
+  }
+}
+
+const liveLog = (block: bigint, topics: Hash[] = []): Partial<Log> => ({
+  blockNumber: block,
+  blockHash: hashOf(block),
+  logIndex: 0,
+  removed: false,
+  topics: topics as Log['topics'],
+});
+
+async function take(stream: CollectorStream<Log>, count: number): Promise<bigint[]> {
+  const blocks: bigint[] = [];
+  for (let i = 0; i < count; i++) {
+    const result = await stream.next();
+    if (result.done) break;
+    blocks.push(result.value.blockNumber as bigint);
+  }
+  return blocks;
+}
+
+function blocksWithLogs(from: bigint, to: bigint): bigint[] {
+  const blocks: bigint[] = [];
+  for (let block = from; block <= to; block++) {
+    if (block % 7n === 0n) blocks.push(block);
+  }
+  return blocks;
+}
+
+describe('LogCollector backfill', () => {
+  test('shrinks the getLogs range while the node rejects it', async () => {
+    const chain = new FakeChain();
+    chain.maxRange = 30n;
+    const collector = new LogCollector(
+      chain.client,
+      { fromBlock: 900n, toBlock: 960n },
+      { blockRange: 100 }
+    );
+
+    const stream = await collector.getEventStream();
+    const blocks = await take(stream, 100);
+
+    expect(blocks).toEqual(blocksWithLogs(900n, 960n));
+    expect(chain.getLogsCalls.slice(0, 3)).toEqual([
+      [900n, 960n],
+      [900n, 949n],
+      [900n, 924n],
+    ]);
+    expect(chain.getLogsCalls.every(([from, to]) => to <= 960n && from >= 900n)).toBe(true);
+  });
+
+  test('checkpoints the emitted blocks and resumes after the checkpoint', async () => {
+    const chain = new FakeChain();
+    const store = new MemoryCheckpointStore();
+    const filter = { fromBlock: 900n, toBlock: 960n };
+    const config = { checkpointStore: store, blockRange: 10 };
+
+    const first = await new LogCollector(chain.client, filter, config).getEventStream();
+    expect(await take(first, 3)).toEqual([903n, 910n, 917n]);
+    await first.return?.();
+    await Bun.sleep(10);
+
+    // Pages end at blocks 909 and 919, only the first is known to be fully read
+    const checkpoint = await store.load('LogCollector');
+    expect(checkpoint).toBeGreaterThanOrEqual(909n);
+    expect(checkpoint).toBeLessThan(924n);
+
+    const second = await new LogCollector(chain.client, filter, config).getEventStream();
+    const blocks = await take(second, 100);
+
+    expect(blocks).toEqual(blocksWithLogs((checkpoint as bigint) + 1n, 960n));
+    await Bun.sleep(10);
+    expect(await store.load('LogCollector')).toBe(960n);
+  });
+
+  test('hands over from backfill to live polling without a gap', async () => {
+    const chain = new FakeChain();
+    const collector = new LogCollector(
+      chain.client,
+      { fromBlock: 980n },
+      { pollingIntervalMs: 10, blockRange: 10 }
+    );
+
+    const stream = await collector.getEventStream();
+    const backfilled = await take(stream, 3);
+    chain.head = 1030n;
+    const live = await take(stream, 5);
+    await stream.return?.();
+
+    expect([...backfilled, ...live]).toEqual(blocksWithLogs(980n, 1030n));
+  });
+});
+
+describe('LogCollector filters', () => {
+  test('sends the address and topics of the filter with getLogs', async () => {
+    const chain = new FakeChain();
+    const address = '0x0000000000000000000000000000000000000001';
+    const sender = hashOf(1n);
+    const collector = new LogCollector(chain.client, {
+      address,
+      topics: [null, sender],
+      fromBlock: 990n,
+      toBlock: 1000n,
+    });
+
+    const stream = await collector.getEventStream();
+    expect(await take(stream, 10)).toEqual(blocksWithLogs(990n, 1000n));
+
+    expect(chain.getLogsParams).toEqual([
+      { address, topics: [null, sender], fromBlock: '0x3de', toBlock: '0x3e8' },
+    ]);
+  });
+
+  test('sends the selectors of the events in place of the first topic', async () => {
+    const chain = new FakeChain();
+    const transfer = parseAbiItem(
+      'event Transfer(address indexed from, address indexed to, uint256 value)'
+    );
+    const approval = parseAbiItem(
+      'event Approval(address indexed owner, address indexed spender, uint256 value)'
+    );
+    const collector = new LogCollector(chain.client, {
+      events: [transfer, approval],
+      topics: [null, hashOf(1n)],
+      fromBlock: 1000n,
+      toBlock: 1000n,
+    });
+
+    const stream = await collector.getEventStream();
+    await take(stream, 10);
+
+    expect(chain.getLogsParams[0].topics).toEqual([
+      [
+        '0xddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef',
+        '0x8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b925',
+      ],
+      hashOf(1n),
+    ]);
+  });
+});
+
+describe('LogCollector polling', () => {
+  test('starts at the head once the block number can be fetched', async () => {
+    const chain = new FakeChain();
+    chain.failBlockNumber = 1;
+    const collector = new LogCollector(chain.client, {}, { pollingIntervalMs: 10 });
+
+    const stream = await collector.getEventStream();
+    await Bun.sleep(50);
+    chain.head = 1014n;
+    const blocks = await take(stream, 2);
+    await stream.return?.();
+
+    expect(blocks).toEqual([1001n, 1008n]);
+    expect(chain.getLogsCalls.every(([from]) => from > 1000n)).toBe(true);
+  });
+});
+
+describe('LogCollector subscription', () => {
+  test('pauses the subscription while the queue is full', async () => {
+    const chain = new FakeChain();
+    chain.transport.type = 'webSocket';
+    const collector = new LogCollector(
+      chain.client,
+      {},
+      { maxQueueSize: 2, pollingIntervalMs: 10 }
+    );
+
+    const stream = await collector.getEventStream();
+    await Bun.sleep(20);
+    expect(chain.subscriptions[0].params.poll).toBe(false);
+
+    chain.head = 1029n;
+    chain.emit(liveLog(1001n), liveLog(1008n), liveLog(1015n), liveLog(1022n));
+    await Bun.sleep(20);
+    expect(chain.subscriptions).toHaveLength(1);
+    expect(chain.subscriptions[0].active).toBe(false);
+
+    const blocks = await take(stream, 5);
+    await stream.return?.();
+
+    expect(blocks).toEqual([1001n, 1008n, 1015n, 1022n, 1029n]);
+    expect(chain.subscriptions).toHaveLength(2);
+    expect(chain.getLogsCalls).toEqual([[1009n, 1029n]]);
+  });
+
+  test('matches the topics the node cannot filter on', async () => {
+    const chain = new FakeChain();
+    chain.transport.type = 'webSocket';
+    const from = hashOf(1n);
+    const other = hashOf(2n);
+    const collector = new LogCollector(
+      chain.client,
+      { address: '0x0000000000000000000000000000000000000001', topics: [null, from] },
+      { pollingIntervalMs: 10 }
+    );
+
+    const stream = await collector.getEventStream();
+    await Bun.sleep(20);
+    chain.emit(
+      liveLog(1001n, [other, other]),
+      liveLog(1002n, [other, from]),
+      liveLog(1003n, [other]),
+      liveLog(1004n, [from, from.toUpperCase() as Hash])
+    );
+    const blocks = await take(stream, 2);
+    await stream.return?.();
+
+    expect(blocks).toEqual([1002n, 1004n]);
+    expect(chain.subscriptions[0].params).toMatchObject({
+      address: '0x0000000000000000000000000000000000000001',
+      events: undefined,
+    });
+  });
+
+  test('falls back to polling when the node has no log subscriptions', async () => {
+    const chain = new FakeChain();
+    chain.transport.type = 'webSocket';
+    chain.subscribeErrors.push(new Error('the method eth_subscribe does not exist'));
+    const collector = new LogCollector(
+      chain.client,
+      { fromBlock: 980n },
+      { pollingIntervalMs: 10 }
+    );
+
+    const stream = await collector.getEventStream();
+    const backfilled = await take(stream, 3);
+    chain.head = 1015n;
+    const polled = await take(stream, 3);
+    await stream.return?.();
+
+    expect([...backfilled, ...polled]).toEqual(blocksWithLogs(980n, 1015n));
+    expect(chain.subscriptions).toHaveLength(1);
+  });
+
+  test('subscribes again when a quiet subscription fails', async () => {
+    const chain = new FakeChain();
+    chain.transport.type = 'webSocket';
+    chain.filters = true;
+    chain.subscribeErrors.push(new Error('socket closed'));
+    const collector = new LogCollector(chain.client, {}, { pollingIntervalMs: 10 });
+
+    const stream = await collector.getEventStream();
+    await Bun.sleep(20);
+    chain.emit(liveLog(1001n));
+    const blocks = await take(stream, 1);
+    await stream.return?.();
+
+    expect(blocks).toEqual([1001n]);
+    expect(chain.subscriptions).toHaveLength(2);
+    expect(chain.newFilterParams).toEqual([]);
+  });
+
+  test('installs a filter with the topics when the node has no log subscriptions', async () => {
+    const chain = new FakeChain();
+    chain.transport.type = 'webSocket';
+    chain.filters = true;
+    chain.subscribeErrors.push(new Error('the method eth_subscribe does not exist'));
+    const address = '0x0000000000000000000000000000000000000001';
+    const topic = hashOf(1n);
+    const collector = new LogCollector(chain.client, { address, topics: [topic] });
+
+    const stream = await collector.getEventStream();
+    await Bun.sleep(20);
+    chain.filterChanges.push({
+      blockNumber: numberToHex(1001n),
+      blockHash: hashOf(1001n),
+      logIndex: '0x0',
+      removed: false,
+      topics: [topic],
+    });
+    const blocks = await take(stream, 1);
+    await stream.return?.();
+
+    expect(blocks).toEqual([1001n]);
+    expect(chain.newFilterParams).toEqual([{ address, topics: [topic] }]);
+  });
+});
@@ -0,0 +1,310 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  FileSink,
+  LOG_ENV_VAR,
+  LogLevel,
+  type LogRecord,
+  Logger,
+  MemorySink,
+  formatJson,
+  formatText,
+  parseLogLevel,
+  parseLogLevelSpec,
+  serializeError,
+} from '../utils/logger';
+
+const record = (overrides: Partial<LogRecord> = {}): LogRecord => ({
+  time: new Date('2024-01-02T03:04:05.000Z'),
+  level: LogLevel.INFO,
+  message: 'Block received',
+  fields: {},
+  prefix: '',
+  logger: '',
+  ...overrides,
+});
+
+const dirs: string[] = [];
+
+afterEach(() => {
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+function tempFile(): string {
+  const dir = mkdtempSync(join(tmpdir(), 'frogberry-log-'));
+  dirs.push(dir);
+  return join(dir, 'frogberry.log');
+}
+
+describe('formatJson', () => {
+  test('writes one JSON object with the fields at the top level', () => {
+    const line = formatJson(
+      record({ logger: 'collector.block', fields: { blockNumber: 12n, hash: '0xab' } })
+    );
+
+    expect(line).not.toContain('\n');
+    expect(JSON.parse(line)).toEqual({
+      time: '2024-01-02T03:04:05.000Z',
+      level: 'info',
+      logger: 'collector.block',
+      msg: 'Block received',
+      blockNumber: '12',
+      hash: '0xab',
+    });
+  });
+
+  test('leaves out the logger name of the root logger', () => {
+    expect(JSON.parse(formatJson(record()))).not.toHaveProperty('logger');
+  });
+
+  test('keeps the stack and cause of errors', () => {
+    const error = new Error('Execution failed', { cause: new TypeError('Bad nonce') });
+    const { error: serialized } = JSON.parse(formatJson(record({ fields: { error } })));
+
+    expect(serialized.name).toBe('Error');
+    expect(serialized.message).toBe('Execution failed');
+    expect(serialized.stack).toContain('Execution failed');
+    expect(serialized.cause.name).toBe('TypeError');
+    expect(serialized.cause.message).toBe('Bad nonce');
+  });
+});
+
+describe('formatText', () => {
+  test('writes the level, logger name, message and fields', () => {
+    const line = formatText(
+      record({
+        prefix: 'Frogberry: ',
+        level: LogLevel.WARN,
+        logger: 'engine',
+        fields: { strategy: 'Arb', reason: 'queue full', count: 3 },
+      })
+    );
+
+    expect(line).toBe(
+      'Frogberry: [WARN] engine: Block received strategy=Arb reason="queue full" count=3'
+    );
+  });
+
+  test('appends the stack of error fields', () => {
+    const error = new Error('Execution failed');
+    const line = formatText(record({ fields: { error } }));
+
+    expect(line).toStartWith('[INFO] Block received error="Error: Execution failed"\n');
+    expect(line).toContain(error.stack as string);
+  });
+});
+
+describe('serializeError', () => {
+  test('keeps a cause that is not an error as is', () => {
+    const serialized = serializeError(new Error('Failed', { cause: { code: 42 } }));
+
+    expect(serialized.cause).toEqual({ code: 42 });
+  });
+});
+
+describe('Logger', () => {
+  test('writes records at or above its level to every sink', () => {
+    const first = new MemorySink();
+    const second = new MemorySink();
+    const log = new Logger({ level: LogLevel.INFO, sinks: [first, second] });
+
+    log.debug('Hidden');
+    log.info('Shown', { blockNumber: 1 });
+
+    expect(first.records.map(({ message }) => message)).toEqual(['Shown']);
+    expect(second.records).toEqual(first.records);
+    expect(first.records[0].fields).toEqual({ blockNumber: 1 });
+  });
+
+  test('merges the fields of child loggers into every record', () => {
+    const sink = new MemorySink();
+    const log = new Logger({ level: LogLevel.INFO, sinks: [sink], fields: { service: 'bot' } });
+
+    log.child({ strategy: 'Arb' }).info('Action submitted', { action: 'swap' });
+
+    expect(sink.records[0].fields).toEqual({ service: 'bot', strategy: 'Arb', action: 'swap' });
+  });
+
+  test('adds and removes sinks', () => {
+    const sink = new MemorySink();
+    const log = new Logger({ level: LogLevel.INFO, sinks: [] });
+
+    const remove = log.addSink(sink);
+    log.info('First');
+    remove();
+    log.info('Second');
+
+    expect(sink.records.map(({ message }) => message)).toEqual(['First']);
+  });
+
+  test('keeps writing to the other sinks when one fails', () => {
+    const sink = new MemorySink();
+    const failing = {
+      write: () => {
+        throw new Error('Disk full');
+      },
+    };
+    const log = new Logger({ level: LogLevel.INFO, sinks: [failing, sink] });
+    const originalError = console.error;
+    console.error = () => {};
+
+    try {
+      log.info('Written');
+    } finally {
+      console.error = originalError;
+    }
+
+    expect(sink.records.map(({ message }) => message)).toEqual(['Written']);
+  });
+});
+
+describe('MemorySink', () => {
+  test('drops the oldest records beyond its limit', () => {
+    const sink = new MemorySink(2);
+    const log = new Logger({ level: LogLevel.INFO, sinks: [sink] });
+
+    log.info('1');
+    log.info('2');
+    log.info('3');
+    expect(sink.records.map(({ message }) => message)).toEqual(['2', '3']);
+
+    sink.clear();
+    expect(sink.records).toEqual([]);
+  });
+});
+
+describe('FileSink', () => {
+  test('appends JSON lines to the file', () => {
+    const path = tempFile();
+    const log = new Logger({ level: LogLevel.INFO, sinks: [new FileSink({ path })] });
+
+    log.info('First', { blockNumber: 1 });
+    log.warn('Second');
+
+    const lines = readFileSync(path, 'utf8')
+      .trimEnd()
+      .split('\n')
+      .map((line) => JSON.parse(line));
+    expect(lines.map(({ level, msg }) => [level, msg])).toEqual([
+      ['info', 'First'],
+      ['warn', 'Second'],
+    ]);
+    expect(lines[0].blockNumber).toBe(1);
+  });
+
+  test('rotates the file by size and keeps maxFiles rotated files', () => {
+    const path = tempFile();
+    const formatter = (record: LogRecord) => record.message;
+    const log = new Logger({
+      level: LogLevel.INFO,
+      sinks: [new FileSink({ path, formatter, maxBytes: 10, maxFiles: 2 })],
+    });
+
+    for (const message of ['aaaa', 'bbbb', 'cccc', 'dddd', 'eeee', 'ffff']) {
+      log.info(message);
+    }
+
+    expect(readFileSync(path, 'utf8')).toBe('eeee\nffff\n');
+    expect(readFileSync(`${path}.1`, 'utf8')).toBe('cccc\ndddd\n');
+    expect(readFileSync(`${path}.2`, 'utf8')).toBe('aaaa\nbbbb\n');
+    expect(existsSync(`${path}.3`)).toBe(false);
+  });
+});
+
+describe('log level specs', () => {
+  test('parses level names case insensitively', () => {
+    expect(parseLogLevel('debug')).toBe(LogLevel.DEBUG);
+    expect(parseLogLevel(' WARN ')).toBe(LogLevel.WARN);
+    expect(() => parseLogLevel('verbose')).toThrow('Invalid log level: verbose');
+  });
+
+  test('parses the default level and the module levels', () => {
+    const spec = parseLogLevelSpec('info, collector.mempool=debug,engine=warn,');
+
+    expect(spec.level).toBe(LogLevel.INFO);
+    expect([...spec.modules]).toEqual([
+      ['collector.mempool', LogLevel.DEBUG],
+      ['engine', LogLevel.WARN],
+    ]);
+    expect(parseLogLevelSpec('engine=warn').level).toBeUndefined();
+  });
+
+  test('rejects entries without a module name or with an unknown level', () => {
+    expect(() => parseLogLevelSpec('=debug')).toThrow('Missing module name');
+    expect(() => parseLogLevelSpec('engine=loud')).toThrow('Invalid log level: loud');
+  });
+});
+
+describe('module log levels', () => {
+  test('named loggers use the level of the longest matching module', () => {
+    const root = new Logger({ level: LogLevel.INFO, sinks: [] });
+    const mempool = root.named('collector').named('mempool');
+    const block = root.named('collector.block');
+    const engine = root.named('engine');
+
+    root.setLevels('warn,collector=debug,collector.mempool=error');
+
+    expect(mempool.getName()).toBe('collector.mempool');
+    expect(mempool.getLevel()).toBe(LogLevel.ERROR);
+    expect(block.getLevel()).toBe(LogLevel.DEBUG);
+    expect(engine.getLevel()).toBe(LogLevel.WARN);
+    expect(root.getLevel()).toBe(LogLevel.WARN);
+  });
+
+  test('setLevels replaces the module levels and keeps the default level without one', () => {
+    const root = new Logger({ level: LogLevel.INFO, sinks: [] });
+    const engine = root.named('engine');
+
+    root.setLevels('engine=trace');
+    expect(engine.getLevel()).toBe(LogLevel.TRACE);
+
+    root.setLevels('collector=debug');
+    expect(engine.getLevel()).toBe(LogLevel.INFO);
+  });
+
+  test('setLevel on a named logger sets the level of its module only', () => {
+    const sink = new MemorySink();
+    const root = new Logger({ level: LogLevel.INFO, sinks: [sink] });
+    const engine = root.named('engine');
+    const collector = root.named('collector');
+
+    engine.setLevel(LogLevel.DEBUG);
+    engine.debug('Engine detail');
+    collector.debug('Collector detail');
+
+    expect(sink.records.map(({ logger, message }) => [logger, message])).toEqual([
+      ['engine', 'Engine detail'],
+    ]);
+  });
+
+  test(`reads the levels from ${LOG_ENV_VAR}`, () => {
+    const script = `
+      import { getLogger, logger } from './utils/logger';
+      console.log(JSON.stringify([
+        logger.getLevel(),
+        getLogger('collector.mempool').getLevel(),
+        getLogger('collector.block').getLevel(),
+      ]));
+    `;
+    const levelsWith = (spec: string) => {
+      const result = Bun.spawnSync({
+        cmd: [process.execPath, '--eval', script],
+        cwd: join(import.meta.dir, '..'),
+        env: { ...process.env, [LOG_ENV_VAR]: spec },
+      });
+      return JSON.parse(result.stdout.toString());
+    };
+
+    expect(levelsWith('warn,collector=debug,collector.mempool=error')).toEqual([
+      LogLevel.WARN,
+      LogLevel.ERROR,
+      LogLevel.DEBUG,
+    ]);
+    // An invalid spec is ignored
+    expect(levelsWith('collector=loud')).toEqual([LogLevel.INFO, LogLevel.INFO, LogLevel.INFO]);
+  });
+});
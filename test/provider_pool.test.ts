@@ -0,0 +1,172 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import type { Server } from 'bun';
+import { LogLevel, logger } from '../utils/logger';
+import { ProviderPool, type ProviderPoolConfig } from '../utils/provider_pool';
+
+logger.setLevel(LogLevel.ERROR);
+
+interface RpcError {
+  code: number;
+  message: string;
+}
+
+/**
+ * Mock JSON-RPC endpoint answering every request with its name, after a delay
+ */
+interface MockEndpoint {
+  name: string;
+  url: string;
+  hits: number;
+  delayMs: number;
+  /** Answer with HTTP 500 */
+  down: boolean;
+  /** Answer with this JSON-RPC error */
+  error?: RpcError;
+}
+
+const servers: Server[] = [];
+
+afterEach(() => {
+  for (const server of servers.splice(0)) {
+    server.stop(true);
+  }
+});
+
+function mockEndpoint(name: string, delayMs = 0): MockEndpoint {
+  const endpoint: MockEndpoint = { name, url: '', hits: 0, delayMs, down: false };
+  const server = Bun.serve({
+    port: 0,
+    fetch: async (req) => {
+      const { id } = (await req.json()) as { id: number };
+      endpoint.hits++;
+      await Bun.sleep(endpoint.delayMs);
+      if (endpoint.down) {
+        return new Response('unavailable', { status: 500 });
+      }
+      if (endpoint.error) {
+        return Response.json({ jsonrpc: '2.0', id, error: endpoint.error });
+      }
+      return Response.json({ jsonrpc: '2.0', id, result: name });
+    },
+  });
+  servers.push(server);
+  endpoint.url = `http://localhost:${server.port}`;
+  return endpoint;
+}
+
+function createPool(
+  endpoints: MockEndpoint[],
+  config: Omit<ProviderPoolConfig, 'endpoints'> = {}
+): ProviderPool {
+  return new ProviderPool({
+    endpoints: endpoints.map(({ url, name }) => ({ url, name })),
+    ...config,
+  });
+}
+
+describe('ProviderPool', () => {
+  test('fails over to the endpoints in priority order', async () => {
+    const primary = mockEndpoint('primary');
+    const secondary = mockEndpoint('secondary');
+    const tertiary = mockEndpoint('tertiary');
+    primary.down = true;
+    const pool = createPool([primary, secondary, tertiary]);
+
+    expect(await pool.request('eth_blockNumber')).toBe('secondary');
+    expect([primary.hits, secondary.hits, tertiary.hits]).toEqual([1, 1, 0]);
+
+    secondary.down = true;
+    expect(await pool.request('eth_blockNumber')).toBe('tertiary');
+    expect(pool.metricsRegistry().expose()).toContain(
+      'frogberry_rpc_failovers_total{endpoint="secondary"} 1'
+    );
+  });
+
+  test('throws the last error when every endpoint fails', async () => {
+    const primary = mockEndpoint('primary');
+    const secondary = mockEndpoint('secondary');
+    primary.down = true;
+    secondary.down = true;
+    const pool = createPool([primary, secondary]);
+
+    await expect(pool.request('eth_blockNumber')).rejects.toThrow();
+    expect([primary.hits, secondary.hits]).toEqual([1, 1]);
+  });
+
+  test('benches a failing endpoint until its cooldown ends', async () => {
+    const primary = mockEndpoint('primary');
+    const secondary = mockEndpoint('secondary');
+    primary.down = true;
+    const pool = createPool([primary, secondary], { maxConsecutiveFailures: 2, cooldownMs: 100 });
+
+    await pool.request('eth_blockNumber');
+    await pool.request('eth_blockNumber');
+    expect(pool.stats()[0].healthy).toBe(false);
+
+    await pool.request('eth_blockNumber');
+    expect(primary.hits).toBe(2);
+
+    primary.down = false;
+    await Bun.sleep(120);
+    expect(await pool.request('eth_blockNumber')).toBe('primary');
+    expect(pool.stats()[0].healthy).toBe(true);
+  });
+
+  test('prefers the fastest endpoint with score selection', async () => {
+    const slow = mockEndpoint('slow', 40);
+    const fast = mockEndpoint('fast');
+    const pool = createPool([slow, fast], { selection: 'score' });
+
+    for (let i = 0; i < 4; i++) {
+      await pool.request('eth_blockNumber');
+    }
+
+    expect(slow.hits).toBe(1);
+    expect(fast.hits).toBe(3);
+    const [slowStats, fastStats] = pool.stats();
+    expect(fastStats.score).toBeLessThan(slowStats.score);
+  });
+
+  test('resolves a hedged request with the first answer', async () => {
+    const slow = mockEndpoint('slow', 200);
+    const fast = mockEndpoint('fast');
+    const pool = createPool([slow, fast], { hedge: 2 });
+    const startedAt = Date.now();
+
+    expect(await pool.request('eth_getBlockByNumber', ['latest', false])).toBe('fast');
+    expect(Date.now() - startedAt).toBeLessThan(150);
+    expect(slow.hits).toBe(1);
+
+    // Methods that are not hedged go to one endpoint only
+    await pool.request('eth_blockNumber');
+    expect(fast.hits).toBe(1);
+  });
+
+  test('throws errors caused by the request without failing over', async () => {
+    const primary = mockEndpoint('primary');
+    const secondary = mockEndpoint('secondary');
+    const pool = createPool([primary, secondary], { maxConsecutiveFailures: 1 });
+
+    primary.error = { code: 3, message: 'execution reverted' };
+    await expect(pool.request('eth_call')).rejects.toThrow('execution reverted');
+
+    primary.error = { code: -32005, message: 'query returned more than 10000 results' };
+    await expect(pool.request('eth_getLogs')).rejects.toThrow('query returned more than');
+
+    primary.error = { code: -32000, message: 'block range is too wide' };
+    await expect(pool.request('eth_getLogs')).rejects.toThrow('block range');
+
+    expect(secondary.hits).toBe(0);
+    expect(pool.stats()[0]).toMatchObject({ healthy: true, failures: 0 });
+  });
+
+  test('fails over on rate limits reported with the range error code', async () => {
+    const primary = mockEndpoint('primary');
+    const secondary = mockEndpoint('secondary');
+    primary.error = { code: -32005, message: 'daily request count exceeded, request rate limited' };
+    const pool = createPool([primary, secondary]);
+
+    expect(await pool.request('eth_getLogs')).toBe('secondary');
+    expect(pool.stats()[0].failures).toBe(1);
+  });
+});
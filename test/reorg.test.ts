@@ -0,0 +1,125 @@
+import { describe, expect, test } from 'bun:test';
+import type { Hash } from 'viem';
+import { type BlockHead, type BlockRef, ReorgDetector } from '../collector/reorg';
+import { LogLevel, logger } from '../utils/logger';
+
+logger.setLevel(LogLevel.ERROR);
+
+const hashOf = (number: bigint, fork: string) =>
+  `0x${fork}${number.toString(16).padStart(63, '0')}` as Hash;
+
+/**
+ * Fake chain whose blocks from forkAt on belong to another fork
+ */
+class FakeChain {
+  forkAt?: bigint;
+  fetched: bigint[] = [];
+
+  forkOf(number: bigint): string {
+    return this.forkAt !== undefined && number >= this.forkAt ? 'b' : 'a';
+  }
+
+  head(number: bigint): BlockHead {
+    return {
+      number,
+      hash: hashOf(number, this.forkOf(number)),
+      parentHash: hashOf(number - 1n, this.forkOf(number - 1n)),
+    };
+  }
+
+  readonly getBlock = async (number: bigint): Promise<BlockRef> => {
+    this.fetched.push(number);
+    return { number, hash: hashOf(number, this.forkOf(number)) };
+  };
+}
+
+async function follow(detector: ReorgDetector, chain: FakeChain, from: bigint, to: bigint) {
+  for (let number = from; number <= to; number++) {
+    await detector.check(chain.head(number));
+  }
+}
+
+describe('ReorgDetector', () => {
+  test('accepts heads that extend the chain and ignores repeated heads', async () => {
+    const chain = new FakeChain();
+    const detector = new ReorgDetector(chain.getBlock);
+
+    for (let number = 100n; number <= 103n; number++) {
+      expect(await detector.check(chain.head(number))).toEqual({ isNew: true });
+    }
+
+    expect(await detector.check(chain.head(103n))).toEqual({ isNew: false });
+    expect(detector.latest()).toBe(103n);
+    expect(chain.fetched).toEqual([]);
+  });
+
+  test('detects a replaced head from its parent hash', async () => {
+    const chain = new FakeChain();
+    const detector = new ReorgDetector(chain.getBlock);
+    await follow(detector, chain, 100n, 102n);
+
+    chain.forkAt = 102n;
+    const check = await detector.check(chain.head(102n));
+
+    expect(check).toEqual({
+      isNew: true,
+      ancestor: 101n,
+      reorg: {
+        depth: 1,
+        oldHashes: [hashOf(102n, 'a')],
+        newHead: { number: 102n, hash: hashOf(102n, 'b') },
+      },
+    });
+    expect(chain.fetched).toEqual([]);
+  });
+
+  test('walks down the remembered blocks to the common ancestor', async () => {
+    const chain = new FakeChain();
+    const detector = new ReorgDetector(chain.getBlock);
+    await follow(detector, chain, 100n, 103n);
+
+    chain.forkAt = 102n;
+    const check = await detector.check(chain.head(104n));
+
+    expect(check.ancestor).toBe(101n);
+    expect(check.reorg?.depth).toBe(2);
+    expect(check.reorg?.oldHashes).toEqual([hashOf(102n, 'a'), hashOf(103n, 'a')]);
+    expect(chain.fetched).toEqual([102n, 101n]);
+
+    // The new chain is remembered
+    expect(await detector.check(chain.head(105n))).toEqual({ isNew: true });
+  });
+
+  test('ignores an older head it has not seen, but not one that contradicts a seen block', async () => {
+    const chain = new FakeChain();
+    const detector = new ReorgDetector(chain.getBlock);
+    await detector.check(chain.head(100n));
+    await detector.check(chain.head(103n));
+
+    expect(await detector.check(chain.head(101n))).toEqual({ isNew: false });
+
+    chain.forkAt = 100n;
+    const check = await detector.check(chain.head(100n));
+    expect(check.isNew).toBe(true);
+    expect(check.reorg?.oldHashes).toEqual([hashOf(100n, 'a'), hashOf(103n, 'a')]);
+    expect(detector.latest()).toBe(100n);
+  });
+
+  test('reports a reorg deeper than the window up to the oldest remembered block', async () => {
+    const chain = new FakeChain();
+    const detector = new ReorgDetector(chain.getBlock, 2);
+    await follow(detector, chain, 100n, 103n);
+
+    chain.forkAt = 90n;
+    const check = await detector.check(chain.head(104n));
+
+    expect(check.ancestor).toBe(101n);
+    expect(check.reorg?.depth).toBe(2);
+    expect(check.reorg?.oldHashes).toEqual([hashOf(102n, 'a'), hashOf(103n, 'a')]);
+  });
+
+  test('rejects an invalid window', () => {
+    const chain = new FakeChain();
+    expect(() => new ReorgDetector(chain.getBlock, 0)).toThrow('Invalid reorg window: 0');
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, expect, test } from 'bun:test';
+import { ActionResultTracker } from '../action_submitter/results';
+import { TimeoutError } from '../utils/timeout';
+
+describe('ActionResultTracker', () => {
+  test('resolves an action with the first result', async () => {
+    const tracker = new ActionResultTracker();
+    const { id, result } = tracker.register<string>();
+    tracker.expect(id, 2);
+
+    tracker.resolve(id, 'first');
+    tracker.resolve(id, 'second');
+
+    expect(await result).toBe('first');
+    expect(tracker.pendingCount()).toBe(0);
+  });
+
+  test('rejects an action with a TimeoutError when no result arrives', async () => {
+    const tracker = new ActionResultTracker();
+    const { id, result } = tracker.register(20);
+    tracker.expect(id, 1);
+
+    const error = await result.catch((e: Error) => e);
+
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect((error as Error).message).toBe(`No result for action ${id} after 20ms`);
+    expect(tracker.pendingCount()).toBe(0);
+  });
+
+  test('rejects an action no executor received', async () => {
+    const tracker = new ActionResultTracker();
+    const { id, result } = tracker.register();
+
+    tracker.expect(id, 0);
+
+    await expect(result).rejects.toThrow('Action not accepted by any receiver');
+  });
+
+  test('rejects with the first error once every executor failed', async () => {
+    const tracker = new ActionResultTracker();
+    const { id, result } = tracker.register();
+    tracker.expect(id, 2);
+
+    tracker.reject(id, new Error('first'));
+    expect(tracker.pendingCount()).toBe(1);
+    tracker.reject(id, new Error('second'));
+
+    await expect(result).rejects.toThrow('first');
+  });
+
+  test('counts errors that arrive before the number of executors is known', async () => {
+    const tracker = new ActionResultTracker();
+    const { id, result } = tracker.register();
+
+    tracker.reject(id, new Error('failed'));
+    tracker.expect(id, 1);
+
+    await expect(result).rejects.toThrow('failed');
+  });
+
+  test('resolves an action when another executor succeeds after a failure', async () => {
+    const tracker = new ActionResultTracker();
+    const { id, result } = tracker.register<number>();
+    tracker.expect(id, 2);
+
+    tracker.reject(id, new Error('failed'));
+    tracker.resolve(id, 42);
+
+    expect(await result).toBe(42);
+  });
+
+  test('rejects every pending action', async () => {
+    const tracker = new ActionResultTracker();
+    const first = tracker.register();
+    const second = tracker.register();
+
+    tracker.rejectAll(new Error('Engine stopped'));
+
+    await expect(first.result).rejects.toThrow('Engine stopped');
+    await expect(second.result).rejects.toThrow('Engine stopped');
+    expect(tracker.pendingCount()).toBe(0);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, test } from 'bun:test';
+import { KeyedTaskPool } from '../utils/task_pool';
+
+const sleep = (ms: number) => new Promise<void>((resolve) => setTimeout(resolve, ms));
+
+describe('KeyedTaskPool', () => {
+  test('runs tasks with the same key in scheduling order', async () => {
+    const pool = new KeyedTaskPool(4);
+    const order: number[] = [];
+
+    for (let i = 0; i < 5; i++) {
+      await pool.schedule(async () => {
+        await sleep(5 - i);
+        order.push(i);
+      }, 'a');
+    }
+    await pool.idle();
+
+    expect(order).toEqual([0, 1, 2, 3, 4]);
+  });
+
+  test('runs tasks without a key concurrently up to the limit', async () => {
+    const pool = new KeyedTaskPool(2);
+    let running = 0;
+    let maxRunning = 0;
+
+    for (let i = 0; i < 6; i++) {
+      await pool.schedule(async () => {
+        running++;
+        maxRunning = Math.max(maxRunning, running);
+        await sleep(10);
+        running--;
+      });
+    }
+    await pool.idle();
+
+    expect(maxRunning).toBe(2);
+    expect(pool.size()).toBe(0);
+  });
+
+  test('does not let a busy key hold up other keys', async () => {
+    const pool = new KeyedTaskPool(4);
+    const startedAt = Date.now();
+    let otherStartedAfter = -1;
+
+    for (let i = 0; i < 8; i++) {
+      await pool.schedule(() => sleep(50), 'busy');
+    }
+    await pool.schedule(async () => {
+      otherStartedAfter = Date.now() - startedAt;
+    }, 'other');
+    await pool.idle();
+
+    expect(otherStartedAfter).toBeGreaterThanOrEqual(0);
+    expect(otherStartedAfter).toBeLessThan(40);
+  });
+
+  test('waits for a slot when every slot is busy', async () => {
+    const pool = new KeyedTaskPool(2);
+    const startedAt = Date.now();
+
+    await pool.schedule(() => sleep(50), 'a');
+    await pool.schedule(() => sleep(50), 'b');
+    await pool.schedule(async () => {}, 'c');
+
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    await pool.idle();
+  });
+
+  test('bounds the tasks waiting for their key', async () => {
+    const pool = new KeyedTaskPool(2, 1);
+    const startedAt = Date.now();
+
+    await pool.schedule(() => sleep(50), 'a');
+    await pool.schedule(() => sleep(50), 'a');
+    expect(Date.now() - startedAt).toBeLessThan(40);
+
+    await pool.schedule(() => sleep(50), 'a');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(45);
+    await pool.idle();
+  });
+
+  test('keeps running after a task throws', async () => {
+    const pool = new KeyedTaskPool(1);
+    const done: number[] = [];
+
+    await pool.schedule(async () => {
+      throw new Error('task failed');
+    }, 'a');
+    await pool.schedule(async () => {
+      done.push(1);
+    }, 'a');
+    await pool.idle();
+
+    expect(done).toEqual([1]);
+  });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, test } from 'bun:test';
+import { TimeoutError, withTimeout } from '../utils/timeout';
+
+describe('withTimeout', () => {
+  test('resolves with the result of an operation that completes in time', async () => {
+    expect(await withTimeout(async () => 42, 100)).toBe(42);
+  });
+
+  test('rejects with a TimeoutError and aborts the operation when the timeout expires', async () => {
+    let signal: AbortSignal | undefined;
+    const result = withTimeout(
+      (operationSignal) => {
+        signal = operationSignal;
+        return new Promise(() => {});
+      },
+      10,
+      { message: 'Too slow' }
+    );
+
+    const error = (await result.catch((e) => e)) as TimeoutError;
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.message).toBe('Too slow');
+    expect(error.timeoutMs).toBe(10);
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('rejects and aborts the operation when the parent signal is aborted', async () => {
+    const parent = new AbortController();
+    let signal: AbortSignal | undefined;
+    const result = withTimeout(
+      (operationSignal) => {
+        signal = operationSignal;
+        return new Promise(() => {});
+      },
+      0,
+      { signal: parent.signal }
+    );
+
+    parent.abort(new Error('Shutting down'));
+
+    await expect(result).rejects.toThrow('Shutting down');
+    expect(signal?.aborted).toBe(true);
+  });
+
+  test('does not start the operation when the parent signal is already aborted', async () => {
+    const parent = new AbortController();
+    parent.abort(new Error('Shutting down'));
+    let started = false;
+
+    const result = withTimeout(
+      async () => {
+        started = true;
+      },
+      100,
+      { signal: parent.signal }
+    );
+
+    await expect(result).rejects.toThrow('Shutting down');
+    expect(started).toBe(false);
+  });
+});
@@ -0,0 +1,317 @@
+import { afterEach, describe, expect, test } from 'bun:test';
+import { mkdtempSync, readFileSync, rmSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import type { Server } from 'bun';
+import { Engine } from '../engine';
+import type { Collector, CollectorStream } from '../types';
+import { LogLevel, logger } from '../utils/logger';
+import {
+  OtlpFileExporter,
+  OtlpHttpExporter,
+  type SpanData,
+  type SpanExporter,
+  Tracer,
+  toOtlpJson,
+} from '../utils/tracing';
+
+logger.setLevel(LogLevel.ERROR);
+
+/**
+ * Exporter keeping every exported batch
+ */
+class MemoryExporter implements SpanExporter {
+  batches: SpanData[][] = [];
+  failures = 0;
+
+  async export(spans: SpanData[]): Promise<void> {
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Collector unavailable');
+    }
+    this.batches.push(spans);
+  }
+
+  spans(): SpanData[] {
+    return this.batches.flat();
+  }
+}
+
+const span = (overrides: Partial<SpanData> = {}): SpanData => ({
+  traceId: 'a'.repeat(32),
+  spanId: 'b'.repeat(16),
+  name: 'process Strategy',
+  kind: 'consumer',
+  startTime: 1_700_000_000_000.5,
+  endTime: 1_700_000_000_002,
+  attributes: {},
+  status: 'ok',
+  ...overrides,
+});
+
+const servers: Server[] = [];
+const dirs: string[] = [];
+let engine: Engine<number, number> | undefined;
+
+afterEach(async () => {
+  await engine?.stop(1000);
+  engine = undefined;
+  for (const server of servers.splice(0)) {
+    server.stop(true);
+  }
+  for (const dir of dirs.splice(0)) {
+    rmSync(dir, { recursive: true, force: true });
+  }
+});
+
+describe('Tracer', () => {
+  test('starts child spans in the trace of their parent', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer(exporter, { flushIntervalMs: 0 });
+
+    const parent = tracer.startSpan('collect Collector', { kind: 'producer' });
+    const child = tracer.startSpan('process Strategy', {
+      parent: parent.context,
+      attributes: { 'frogberry.strategy': 'Strategy' },
+    });
+    child.setAttribute('frogberry.actions', 2);
+    child.end();
+    parent.end();
+    await tracer.flush();
+
+    const [childData, parentData] = exporter.spans();
+    expect(parentData.traceId).toMatch(/^[0-9a-f]{32}$/);
+    expect(parentData.spanId).toMatch(/^[0-9a-f]{16}$/);
+    expect(parentData.parentSpanId).toBeUndefined();
+    expect(parentData.kind).toBe('producer');
+    expect(childData.traceId).toBe(parentData.traceId);
+    expect(childData.parentSpanId).toBe(parentData.spanId);
+    expect(childData.kind).toBe('internal');
+    expect(childData.attributes).toEqual({
+      'frogberry.strategy': 'Strategy',
+      'frogberry.actions': 2,
+    });
+    expect(childData.endTime).toBeGreaterThanOrEqual(childData.startTime);
+  });
+
+  test('records the error a span ends with, and only its first end', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer(exporter, { flushIntervalMs: 0 });
+
+    const failed = tracer.startSpan('execute Executor');
+    failed.end(new Error('Reverted'));
+    failed.end();
+    await tracer.flush();
+
+    expect(exporter.spans()).toHaveLength(1);
+    expect(exporter.spans()[0].status).toBe('error');
+    expect(exporter.spans()[0].statusMessage).toBe('Reverted');
+  });
+
+  test('exports a batch once maxBatchSize spans are buffered', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer(exporter, { flushIntervalMs: 0, maxBatchSize: 2 });
+
+    for (let i = 0; i < 5; i++) {
+      tracer.startSpan(`span ${i}`).end();
+    }
+    await tracer.shutdown();
+
+    expect(exporter.batches.map((batch) => batch.map(({ name }) => name))).toEqual([
+      ['span 0', 'span 1'],
+      ['span 2', 'span 3'],
+      ['span 4'],
+    ]);
+  });
+
+  test('exports buffered spans at the flush interval', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer(exporter, { flushIntervalMs: 10 });
+
+    try {
+      tracer.startSpan('span').end();
+      await Bun.sleep(50);
+
+      expect(exporter.spans().map(({ name }) => name)).toEqual(['span']);
+    } finally {
+      await tracer.shutdown();
+    }
+  });
+
+  test('drops spans while the queue is full and recovers after a failed export', async () => {
+    const exporter = new MemoryExporter();
+    exporter.failures = 1;
+    const tracer = new Tracer(exporter, { flushIntervalMs: 0, maxQueueSize: 2 });
+
+    for (let i = 0; i < 3; i++) {
+      tracer.startSpan(`span ${i}`).end();
+    }
+    expect(tracer.droppedSpans()).toBe(1);
+
+    // The failed export is logged, not thrown, and frees the queue
+    await tracer.flush();
+    tracer.startSpan('span 3').end();
+    await tracer.flush();
+
+    expect(exporter.spans().map(({ name }) => name)).toEqual(['span 3']);
+    expect(tracer.droppedSpans()).toBe(1);
+  });
+});
+
+describe('OTLP export', () => {
+  test('converts spans to an OTLP/JSON request', () => {
+    const request = toOtlpJson(
+      [
+        span({
+          parentSpanId: 'c'.repeat(16),
+          attributes: { stream: 'blocks', block: 12, ratio: 0.5, reorg: false },
+        }),
+        span({ kind: 'producer', status: 'error', statusMessage: 'Reverted' }),
+      ],
+      'bot'
+    );
+
+    expect(request).toEqual({
+      resourceSpans: [
+        {
+          resource: { attributes: [{ key: 'service.name', value: { stringValue: 'bot' } }] },
+          scopeSpans: [
+            {
+              scope: { name: 'frogberry' },
+              spans: [
+                {
+                  traceId: 'a'.repeat(32),
+                  spanId: 'b'.repeat(16),
+                  parentSpanId: 'c'.repeat(16),
+                  name: 'process Strategy',
+                  kind: 5,
+                  startTimeUnixNano: '1700000000000500000',
+                  endTimeUnixNano: '1700000000002000000',
+                  attributes: [
+                    { key: 'stream', value: { stringValue: 'blocks' } },
+                    { key: 'block', value: { intValue: '12' } },
+                    { key: 'ratio', value: { doubleValue: 0.5 } },
+                    { key: 'reorg', value: { boolValue: false } },
+                  ],
+                  status: { code: 1 },
+                },
+                {
+                  traceId: 'a'.repeat(32),
+                  spanId: 'b'.repeat(16),
+                  name: 'process Strategy',
+                  kind: 4,
+                  startTimeUnixNano: '1700000000000500000',
+                  endTimeUnixNano: '1700000000002000000',
+                  attributes: [],
+                  status: { code: 2, message: 'Reverted' },
+                },
+              ],
+            },
+          ],
+        },
+      ],
+    });
+  });
+
+  test('posts spans to the collector endpoint', async () => {
+    const requests: { headers: Headers; body: unknown }[] = [];
+    const server = Bun.serve({
+      port: 0,
+      fetch: async (req) => {
+        requests.push({ headers: req.headers, body: await req.json() });
+        return new Response(requests.length === 1 ? '{}' : 'unavailable', {
+          status: requests.length === 1 ? 200 : 503,
+        });
+      },
+    });
+    servers.push(server);
+    const exporter = new OtlpHttpExporter({
+      url: `http://127.0.0.1:${server.port}/v1/traces`,
+      headers: { authorization: 'Bearer token' },
+    });
+
+    await exporter.export([span()]);
+    expect(requests[0].headers.get('content-type')).toBe('application/json');
+    expect(requests[0].headers.get('authorization')).toBe('Bearer token');
+    expect(requests[0].body).toEqual(toOtlpJson([span()]));
+
+    await expect(exporter.export([span()])).rejects.toThrow('OTLP export failed with status 503');
+  });
+
+  test('appends one request per line to a file', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'frogberry-traces-'));
+    dirs.push(dir);
+    const path = join(dir, 'traces.jsonl');
+    const exporter = new OtlpFileExporter(path, 'bot');
+
+    await exporter.export([span()]);
+    await exporter.export([span({ name: 'execute Executor' })]);
+
+    const lines = readFileSync(path, 'utf8').trimEnd().split('\n');
+    expect(lines.map((line) => JSON.parse(line))).toEqual([
+      toOtlpJson([span()], 'bot'),
+      toOtlpJson([span({ name: 'execute Executor' })], 'bot'),
+    ]);
+  });
+});
+
+describe('engine tracing', () => {
+  /**
+   * Collector emitting a single event, then staying silent
+   */
+  class SingleEventCollector implements Collector<number> {
+    name(): string {
+      return 'SingleEventCollector';
+    }
+
+    async getEventStream(): Promise<CollectorStream<number>> {
+      let emitted = false;
+      return {
+        next: async () => {
+          if (emitted) return new Promise(() => {});
+          emitted = true;
+          return { done: false, value: 1 };
+        },
+      };
+    }
+  }
+
+  test('links the spans of an event and the actions it causes in one trace', async () => {
+    const exporter = new MemoryExporter();
+    const tracer = new Tracer(exporter, { flushIntervalMs: 0 });
+    engine = new Engine<number, number>({ tracer });
+    engine.addCollector(new SingleEventCollector());
+    engine.addStrategy({
+      name: () => 'TracedStrategy',
+      processEvent: async (event, submitter) => {
+        submitter.submit(event);
+      },
+    });
+    engine.addExecutor({
+      name: () => 'FailingExecutor',
+      execute: async () => {
+        throw new Error('Reverted');
+      },
+    });
+
+    await engine.run();
+    await Bun.sleep(50);
+    await engine.stop(1000);
+
+    const spans = new Map(exporter.spans().map((data) => [data.name, data]));
+    const collect = spans.get('collect SingleEventCollector');
+    const processing = spans.get('process TracedStrategy');
+    const execute = spans.get('execute FailingExecutor');
+
+    expect(collect?.kind).toBe('producer');
+    expect(collect?.attributes['frogberry.collector']).toBe('SingleEventCollector');
+    expect(processing?.kind).toBe('consumer');
+    expect(processing?.traceId).toBe(collect?.traceId as string);
+    expect(processing?.parentSpanId).toBe(collect?.spanId as string);
+    expect(processing?.status).toBe('ok');
+    expect(execute?.traceId).toBe(collect?.traceId as string);
+    expect(execute?.parentSpanId).toBe(processing?.spanId as string);
+    expect(execute?.status).toBe('error');
+    expect(execute?.statusMessage).toBe('Reverted');
+  });
+});
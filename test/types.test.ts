@@ -0,0 +1,115 @@
+import { describe, expect, test } from 'bun:test';
+import { Engine } from '../engine';
+import {
+  type Collector,
+  CollectorFilterMap,
+  CollectorMap,
+  type CollectorStream,
+  type Executor,
+  ExecutorMap,
+} from '../types';
+
+/**
+ * Collector whose stream yields numbers until it is closed
+ */
+class CountingCollector implements Collector<number> {
+  closed = false;
+  thrown: unknown;
+
+  name(): string {
+    return 'CountingCollector';
+  }
+
+  async getEventStream(): Promise<CollectorStream<number>> {
+    let count = 0;
+    return {
+      next: async () => ({ done: false, value: count++ }),
+      return: async () => {
+        this.closed = true;
+        return { done: true, value: undefined };
+      },
+      throw: async (error?: unknown) => {
+        this.thrown = error;
+        return { done: true, value: undefined };
+      },
+    };
+  }
+}
+
+describe('CollectorMap', () => {
+  test('maps events and closes the inner stream', async () => {
+    const inner = new CountingCollector();
+    const stream = await new CollectorMap(inner, (n) => `#${n}`).getEventStream();
+
+    expect(await stream.next()).toEqual({ done: false, value: '#0' });
+    expect(await stream.return?.()).toEqual({ done: true, value: undefined });
+    expect(inner.closed).toBe(true);
+  });
+
+  test('passes throw() through to the inner stream', async () => {
+    const inner = new CountingCollector();
+    const stream = await new CollectorMap(inner, (n) => n).getEventStream();
+    const error = new Error('stop');
+
+    await stream.throw?.(error);
+    expect(inner.thrown).toBe(error);
+  });
+});
+
+describe('CollectorFilterMap', () => {
+  test('skips filtered events and closes the inner stream', async () => {
+    const inner = new CountingCollector();
+    const stream = await new CollectorFilterMap(inner, (n) =>
+      n % 2 === 0 ? undefined : n
+    ).getEventStream();
+
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 3 });
+    await stream.return?.();
+    expect(inner.closed).toBe(true);
+  });
+});
+
+describe('ExecutorMap', () => {
+  const inner: Executor<number, string> = {
+    name: () => 'Inner',
+    execute: async (action) => `executed ${action}`,
+  };
+
+  test('returns the result of the inner executor', async () => {
+    const executor = new ExecutorMap(inner, (action: string) => Number(action));
+
+    expect(await executor.execute('7')).toBe('executed 7');
+  });
+
+  test('results in undefined for actions mapped to nothing', async () => {
+    const executor = new ExecutorMap(inner, (action: string) => (action ? Number(action) : null));
+
+    expect(await executor.execute('')).toBeUndefined();
+  });
+
+  test('delivers the result to submitAndWait', async () => {
+    const engine = new Engine<number, string>();
+    engine.addCollector({
+      name: () => 'Once',
+      getEventStream: async () =>
+        (async function* () {
+          yield 0;
+        })(),
+    });
+    engine.addStrategy({
+      name: () => 'Waiting',
+      processEvent: async (event, submitter) => {
+        if (event === 0) results.push(await submitter.submitAndWait?.<string>('3'));
+      },
+    });
+    engine.addExecutor(new ExecutorMap(inner, (action: string) => Number(action)));
+    const results: (string | undefined)[] = [];
+
+    await engine.run();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    await engine.stop(1000);
+
+    expect(results).toEqual(['executed 3']);
+  });
+});
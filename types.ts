@@ -3,6 +3,8 @@
  * Ported from Rust crate burberry/src/types.rs
  */
 
+import type { SpanContext } from './utils/tracing';
+
 export type CollectorStream<E> = AsyncIterator<E>;
 
 /**
@@ -23,6 +25,14 @@ export interface SubmitResult {
   error?: string;
 }
 
+/**
+ * Options for waiting on the result of an action
+ */
+export interface SubmitAndWaitOptions {
+  /** Maximum time to wait for the result in milliseconds (default: 30000) */
+  timeoutMs?: number;
+}
+
 /**
  * ActionSubmitter interface - submits actions to be executed
  */
@@ -46,6 +56,24 @@ export interface ActionSubmitter<A> {
    * @returns Whether the action was submitted successfully
    */
   trySubmit?(action: A): boolean;
+
+  /**
+   * Submit an action and wait for the result of the executor that handled it
+   * @param action The action to submit
+   * @param options Options for waiting on the result
+   * @returns A promise that resolves to the executor's result, or rejects with its error
+   */
+  submitAndWait?<R = unknown>(action: A, options?: SubmitAndWaitOptions): Promise<R>;
+}
+
+/**
+ * Context passed by the engine along with each event or action
+ */
+export interface ExecutionContext {
+  /** Aborted when processing times out or the engine stops; pass it on to RPC calls */
+  signal: AbortSignal;
+  /** Span of this call when the engine traces, parent of any span the component starts */
+  trace?: SpanContext;
 }
 
 /**
@@ -54,15 +82,41 @@ export interface ActionSubmitter<A> {
 export interface Strategy<E, A> {
   name(): string;
   syncState?(submitter: ActionSubmitter<A>): Promise<void>;
-  processEvent(event: E, submitter: ActionSubmitter<A>): Promise<void>;
+  processEvent(event: E, submitter: ActionSubmitter<A>, context?: ExecutionContext): Promise<void>;
 }
 
 /**
  * Executor interface - executes actions
+ * The value returned by execute is delivered to strategies waiting with submitAndWait
  */
-export interface Executor<A> {
+export interface Executor<A, R = void> {
   name(): string;
-  execute(action: A): Promise<void>;
+  execute(action: A, context?: ExecutionContext): Promise<R>;
+}
+
+/**
+ * Pass return() and throw() of a wrapping stream through to the inner stream, so closing the
+ * wrapper releases the inner stream's resources
+ * @param stream The inner stream
+ * @returns The methods to spread into the wrapping stream
+ */
+function closeThrough<E>(
+  stream: CollectorStream<unknown>
+): Pick<CollectorStream<E>, 'return' | 'throw'> {
+  return {
+    async return(): Promise<IteratorResult<E>> {
+      await stream.return?.();
+      return { done: true, value: undefined };
+    },
+    async throw(error?: unknown): Promise<IteratorResult<E>> {
+      if (!stream.throw) {
+        await stream.return?.();
+        throw error;
+      }
+      await stream.throw(error);
+      return { done: true, value: undefined };
+    },
+  };
 }
 
 /**
@@ -94,6 +148,7 @@ export class CollectorMap<E1, E2> implements Collector<E2> {
         }
         return { done: false, value: f(result.value) };
       },
+      ...closeThrough<E2>(stream),
     };
   }
 }
@@ -134,18 +189,20 @@ export class CollectorFilterMap<E1, E2> implements Collector<E2> {
           // If mapped is null or undefined, continue to the next item
         }
       },
+      ...closeThrough<E2>(stream),
     };
   }
 }
 
 /**
  * ExecutorMap - maps actions from one type to another
+ * The result of the inner executor is passed on, actions mapped to nothing result in undefined
  */
-export class ExecutorMap<A1, A2> implements Executor<A1> {
-  private inner: Executor<A2>;
+export class ExecutorMap<A1, A2, R = void> implements Executor<A1, R | undefined> {
+  private inner: Executor<A2, R>;
   private readonly f: (a: A1) => A2 | null | undefined;
 
-  constructor(executor: Executor<A2>, f: (a: A1) => A2 | null | undefined) {
+  constructor(executor: Executor<A2, R>, f: (a: A1) => A2 | null | undefined) {
     this.inner = executor;
     this.f = f;
   }
@@ -154,11 +211,11 @@ export class ExecutorMap<A1, A2> implements Executor<A1> {
     return this.inner.name();
   }
 
-  async execute(action: A1): Promise<void> {
+  async execute(action: A1, context?: ExecutionContext): Promise<R | undefined> {
     const mappedAction = this.f(action);
     if (mappedAction !== null && mappedAction !== undefined) {
-      return this.inner.execute(mappedAction);
+      return this.inner.execute(mappedAction, context);
     }
-    return Promise.resolve();
+    return undefined;
   }
 }
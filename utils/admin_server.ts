@@ -0,0 +1,130 @@
+/**
+ * Admin server
+ * A small HTTP control plane to probe, pause, resume and stop an engine
+ */
+
+import type { Server } from 'bun';
+import type { ComponentInfo, StopMode, StopOptions } from '../engine';
+import { getLogger } from './logger';
+
+const logger = getLogger('admin');
+
+/**
+ * What the admin server needs from an engine
+ */
+export interface AdminTarget {
+  isRunning(): boolean;
+  listComponents(): ComponentInfo[];
+  pauseComponent(name: string): boolean;
+  resumeComponent(name: string): boolean;
+  removeComponent(name: string): Promise<boolean>;
+  stop(options?: StopOptions): Promise<void>;
+}
+
+/**
+ * Options for the admin server
+ */
+export interface AdminServerOptions {
+  /** Port to listen on (default: 9465) */
+  port?: number;
+  /** Hostname to bind to (default: 127.0.0.1, only reachable locally) */
+  hostname?: string;
+}
+
+/**
+ * Create a JSON response
+ */
+function json(body: unknown, status = 200): Response {
+  return Response.json(body, { status });
+}
+
+/**
+ * Serve the admin API of an engine
+ *
+ * - `GET /health`: liveness and the state of every component, 503 while the engine stops
+ * - `GET /components`: the state of every component
+ * - `POST /components/:name/pause` and `POST /components/:name/resume`
+ * - `DELETE /components/:name`: remove a component once it has stopped
+ * - `POST /stop?mode=drain&timeoutMs=30000`: stop the engine in the background
+ *
+ * @param target The engine to control
+ * @param options Options for the server
+ * @returns The running server, stop it with server.stop()
+ */
+export function serveAdmin(target: AdminTarget, options: AdminServerOptions = {}): Server {
+  const { port = 9465, hostname = '127.0.0.1' } = options;
+
+  const server = Bun.serve({
+    port,
+    hostname,
+    async fetch(request) {
+      const url = new URL(request.url);
+      const method = request.method;
+
+      if (method === 'GET' && url.pathname === '/health') {
+        const running = target.isRunning();
+        return json(
+          { status: running ? 'ok' : 'stopping', components: target.listComponents() },
+          running ? 200 : 503
+        );
+      }
+
+      if (method === 'GET' && url.pathname === '/components') {
+        return json(target.listComponents());
+      }
+
+      const match = url.pathname.match(/^\/components\/([^/]+)\/(pause|resume)$/);
+      if (method === 'POST' && match) {
+        const name = decodeURIComponent(match[1]);
+        const action = match[2];
+        const changed =
+          action === 'pause' ? target.pauseComponent(name) : target.resumeComponent(name);
+
+        if (!changed) {
+          const exists = target.listComponents().some((component) => component.name === name);
+          return json(
+            {
+              error: exists ? `${name} cannot be ${action}d now` : `Unknown component ${name}`,
+            },
+            exists ? 409 : 404
+          );
+        }
+        return json({ name, action });
+      }
+
+      const component = url.pathname.match(/^\/components\/([^/]+)$/);
+      if (method === 'DELETE' && component) {
+        const name = decodeURIComponent(component[1]);
+        if (!(await target.removeComponent(name))) {
+          return json({ error: `Unknown component ${name}` }, 404);
+        }
+        return json({ name, action: 'remove' });
+      }
+
+      if (method === 'POST' && url.pathname === '/stop') {
+        const mode = url.searchParams.get('mode') ?? 'immediate';
+        if (mode !== 'immediate' && mode !== 'drain') {
+          return json({ error: `Invalid stop mode: ${mode}` }, 400);
+        }
+
+        const timeoutMs = url.searchParams.has('timeoutMs')
+          ? Number(url.searchParams.get('timeoutMs'))
+          : undefined;
+        if (timeoutMs !== undefined && !(timeoutMs > 0)) {
+          return json({ error: 'Invalid timeoutMs' }, 400);
+        }
+
+        logger.info(`Stop requested through the admin API (${mode})`);
+        target.stop({ mode: mode as StopMode, timeoutMs }).catch((e) => {
+          logger.error('Error stopping engine from the admin API', { error: e });
+        });
+        return json({ stopping: true, mode }, 202);
+      }
+
+      return json({ error: 'Not Found' }, 404);
+    },
+  });
+
+  logger.info(`Serving admin API on http://${hostname}:${server.port}`);
+  return server;
+}
@@ -3,7 +3,9 @@
  * A TypeScript equivalent of Tokio's broadcast channel with improved error handling
  */
 
-import { logger } from './logger';
+import { getLogger } from './logger';
+
+const logger = getLogger('channel');
 
 /**
  * Error types for the broadcast channel
@@ -53,6 +55,15 @@ export class ChannelError extends Error {
   }
 }
 
+/**
+ * What happens when a message is sent to a receiver whose buffer is full
+ * - dropOldest: the oldest buffered message is dropped and counted as lag
+ * - dropNewest: the new message is dropped and counted as lag
+ * - block: sendAsync waits until every receiver has capacity, send throws a FULL error
+ * - error: send and sendAsync throw a FULL error without delivering the message
+ */
+export type OverflowPolicy = 'dropOldest' | 'dropNewest' | 'block' | 'error';
+
 /**
  * Configuration for the broadcast channel
  */
@@ -63,6 +74,26 @@ export interface BroadcastChannelConfig {
   throwOnLag?: boolean;
   /** How often to report lag (in number of messages) */
   lagReportInterval?: number;
+  /** What to do when a receiver's buffer is full (default: dropOldest) */
+  overflow?: OverflowPolicy;
+}
+
+/**
+ * Options for a single subscription to a broadcast channel
+ */
+export interface SubscribeOptions<T> {
+  /** Only values matching this predicate are delivered to the receiver */
+  filter?: (value: T) => boolean;
+  /** Called with the total lag count every time the receiver reports lag */
+  onLag?: (lagCount: number) => void;
+}
+
+/**
+ * Options for closing a broadcast channel
+ */
+export interface CloseOptions {
+  /** Let receivers consume their buffered values before they report done (default: false) */
+  drain?: boolean;
 }
 
 /**
@@ -77,27 +108,50 @@ export class BroadcastReceiver<T> implements AsyncIterator<T> {
   private readonly maxLag: number;
   private readonly throwOnLag: boolean;
   private readonly lagReportInterval: number;
+  private readonly overflow: OverflowPolicy;
+  private readonly filter?: (value: T) => boolean;
+  private readonly onLag?: (lagCount: number) => void;
 
   constructor(
     channel: BroadcastChannel<T>,
     maxLag: number,
     throwOnLag: boolean,
-    lagReportInterval: number
+    lagReportInterval: number,
+    overflow: OverflowPolicy = 'dropOldest',
+    options: SubscribeOptions<T> = {}
   ) {
     this.channel = channel;
     this.maxLag = maxLag;
     this.throwOnLag = throwOnLag;
     this.lagReportInterval = lagReportInterval;
+    this.overflow = overflow;
+    this.filter = options.filter;
+    this.onLag = options.onLag;
 
     // Register this receiver with the channel
     channel.addReceiver(this);
   }
 
+  /**
+   * Check whether a value should be delivered to this receiver
+   */
+  accepts(value: T): boolean {
+    return this.filter ? this.filter(value) : true;
+  }
+
+  /**
+   * Check whether the receiver's buffer is full
+   */
+  isFull(): boolean {
+    return this.resolvers.length === 0 && this.buffer.length >= this.maxLag;
+  }
+
   /**
    * Receive a value from the channel
+   * @returns Whether the value was accepted, false if it was dropped
    */
-  receive(value: T): void {
-    if (this.closed) return;
+  receive(value: T): boolean {
+    if (this.closed) return false;
 
     // If we have waiting resolvers, resolve them immediately
     if (this.resolvers.length > 0) {
@@ -105,34 +159,55 @@ export class BroadcastReceiver<T> implements AsyncIterator<T> {
       if (resolver) {
         resolver({ done: false, value });
       }
-      return;
+      return true;
+    }
+
+    // Drop the new message if the buffer is full and the policy says so
+    if (this.overflow === 'dropNewest' && this.buffer.length >= this.maxLag) {
+      this.recordLag();
+      return false;
     }
 
     // Otherwise, add to buffer, potentially dropping old messages
     this.buffer.push(value);
-    if (this.buffer.length > this.maxLag) {
+    if (this.overflow === 'dropOldest' && this.buffer.length > this.maxLag) {
       this.buffer.shift();
-      this.lagCount++;
+      this.recordLag();
+    }
+
+    return true;
+  }
+
+  /**
+   * Count a dropped message and report lag at the configured interval
+   */
+  private recordLag(): void {
+    this.lagCount++;
+
+    // Report lag at specified intervals
+    if (this.lagCount % this.lagReportInterval === 0) {
+      this.onLag?.(this.lagCount);
 
-      // Report lag at specified intervals
-      if (this.lagCount % this.lagReportInterval === 0) {
-        const error = ChannelError.lagged(this.lagCount);
+      const error = ChannelError.lagged(this.lagCount);
 
-        if (this.throwOnLag) {
-          throw error;
-        }
-        logger.warn(`Receiver lagging: ${error.message}`);
+      if (this.throwOnLag) {
+        throw error;
       }
+      logger.warn('Receiver lagging', { error });
     }
   }
 
   /**
    * Close the receiver
+   * @param drain Keep buffered values so next() returns them before done
    */
-  close(): void {
+  close(drain = false): void {
     if (this.closed) return;
 
     this.closed = true;
+    if (!drain) {
+      this.buffer = [];
+    }
 
     // Resolve any waiting resolvers with done
     for (const resolver of this.resolvers) {
@@ -142,19 +217,17 @@ export class BroadcastReceiver<T> implements AsyncIterator<T> {
 
     // Remove this receiver from the channel
     this.channel.removeReceiver(this);
+    this.channel.notifyCapacity();
   }
 
   /**
    * AsyncIterator next method
    */
   async next(): Promise<IteratorResult<T>> {
-    if (this.closed) {
-      return { done: true, value: undefined as unknown };
-    }
-
-    // If we have buffered values, return one immediately
+    // If we have buffered values, return one immediately, even while draining after close
     if (this.buffer.length > 0) {
       const value = this.buffer.shift();
+      this.channel.notifyCapacity();
       if (value === undefined) {
         // This should never happen, but we handle it just in case
         return this.next();
@@ -162,6 +235,10 @@ export class BroadcastReceiver<T> implements AsyncIterator<T> {
       return { done: false, value };
     }
 
+    if (this.closed) {
+      return { done: true, value: undefined as unknown };
+    }
+
     // Otherwise, wait for a value
     return new Promise<IteratorResult<T>>((resolve) => {
       this.resolvers.push(resolve);
@@ -190,6 +267,7 @@ export class BroadcastChannel<T> {
   private receivers: Set<BroadcastReceiver<T>> = new Set();
   private config: Required<BroadcastChannelConfig>;
   private closed = false;
+  private capacityWaiters: (() => void)[] = [];
 
   /**
    * Create a new BroadcastChannel
@@ -201,6 +279,7 @@ export class BroadcastChannel<T> {
       maxLag: capacity,
       throwOnLag: false,
       lagReportInterval: 100,
+      overflow: 'dropOldest',
       ...config,
     };
   }
@@ -208,38 +287,127 @@ export class BroadcastChannel<T> {
   /**
    * Send a value to all receivers
    * @param value The value to send
+   * @returns The number of receivers the value was delivered to
    * @throws {ChannelError} If the channel is closed
    */
-  send(value: T): void {
+  send(value: T): number {
     if (this.closed) {
       throw ChannelError.closed();
     }
 
+    // Under the block and error policies a message is delivered to all receivers or none
+    if (
+      (this.config.overflow === 'block' || this.config.overflow === 'error') &&
+      this.hasFullReceiver(value)
+    ) {
+      throw ChannelError.full();
+    }
+
+    let delivered = 0;
     for (const receiver of this.receivers) {
-      receiver.receive(value);
+      if (receiver.accepts(value) && receiver.receive(value)) {
+        delivered++;
+      }
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Send a value to all receivers, waiting for capacity under the block policy
+   * Under other policies this behaves like send()
+   * @param value The value to send
+   * @returns The number of receivers the value was delivered to
+   * @throws {ChannelError} If the channel is closed, or full under the error policy
+   */
+  async sendAsync(value: T): Promise<number> {
+    if (this.config.overflow !== 'block') {
+      return this.send(value);
+    }
+
+    while (true) {
+      if (this.closed) {
+        throw ChannelError.closed();
+      }
+
+      if (!this.hasFullReceiver(value)) {
+        return this.send(value);
+      }
+
+      // Wait for a receiver to consume a message, unsubscribe or the channel to close
+      await new Promise<void>((resolve) => {
+        this.capacityWaiters.push(resolve);
+      });
     }
   }
 
   /**
-   * Try to send a value to all receivers, returning false if the channel is closed
+   * Try to send a value to all receivers, returning false if the channel is closed or full
    * @param value The value to send
-   * @returns true if the value was sent, false if the channel is closed
+   * @returns true if the value was sent, false if the channel is closed or full
    */
   trySend(value: T): boolean {
     if (this.closed) {
       return false;
     }
 
-    this.send(value);
-    return true;
+    try {
+      this.send(value);
+      return true;
+    } catch (e) {
+      if (e instanceof ChannelError && e.type === ChannelErrorType.FULL) {
+        return false;
+      }
+      throw e;
+    }
+  }
+
+  /**
+   * Check whether any receiver accepts a value
+   * @param value The value to check
+   */
+  hasReceiverFor(value: T): boolean {
+    for (const receiver of this.receivers) {
+      if (receiver.accepts(value)) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Check whether any receiver that accepts a value has a full buffer
+   * @param value The value to check
+   */
+  private hasFullReceiver(value: T): boolean {
+    for (const receiver of this.receivers) {
+      if (receiver.accepts(value) && receiver.isFull()) {
+        return true;
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Wake up senders waiting for capacity (internal use)
+   */
+  notifyCapacity(): void {
+    if (this.capacityWaiters.length === 0) return;
+
+    const waiters = this.capacityWaiters;
+    this.capacityWaiters = [];
+    for (const waiter of waiters) {
+      waiter();
+    }
   }
 
   /**
    * Subscribe to the channel
+   * @param options Options for this subscription
    * @returns A new receiver
    * @throws {ChannelError} If the channel is closed
    */
-  subscribe(): BroadcastReceiver<T> {
+  subscribe(options: SubscribeOptions<T> = {}): BroadcastReceiver<T> {
     if (this.closed) {
       throw ChannelError.closed();
     }
@@ -248,35 +416,40 @@ export class BroadcastChannel<T> {
       this,
       this.config.maxLag,
       this.config.throwOnLag,
-      this.config.lagReportInterval
+      this.config.lagReportInterval,
+      this.config.overflow,
+      options
     );
   }
 
   /**
    * Try to subscribe to the channel, returning null if the channel is closed
+   * @param options Options for this subscription
    * @returns A new receiver, or null if the channel is closed
    */
-  trySubscribe(): BroadcastReceiver<T> | null {
+  trySubscribe(options: SubscribeOptions<T> = {}): BroadcastReceiver<T> | null {
     if (this.closed) {
       return null;
     }
 
-    return this.subscribe();
+    return this.subscribe(options);
   }
 
   /**
    * Close the channel
+   * @param options Options for closing, e.g. draining receiver buffers
    */
-  close(): void {
+  close(options: CloseOptions = {}): void {
     if (this.closed) return;
 
     this.closed = true;
 
     for (const receiver of this.receivers) {
-      receiver.close();
+      receiver.close(options.drain);
     }
 
     this.receivers.clear();
+    this.notifyCapacity();
   }
 
   /**
@@ -0,0 +1,97 @@
+/**
+ * Checkpoints
+ * Persist the last block a collector fully processed, so a restart resumes where it stopped
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import { parseWithBigInt, stringifyWithBigInt } from './json';
+
+/**
+ * Storage for block checkpoints, keyed by collector
+ */
+export interface CheckpointStore {
+  /**
+   * Load a checkpoint
+   * @param key The key of the checkpoint
+   * @returns The block number, or undefined if there is no checkpoint
+   */
+  load(key: string): Promise<bigint | undefined>;
+  /**
+   * Save a checkpoint
+   * @param key The key of the checkpoint
+   * @param block The block number
+   */
+  save(key: string, block: bigint): Promise<void>;
+}
+
+/**
+ * MemoryCheckpointStore - keeps checkpoints in memory, e.g. for tests
+ */
+export class MemoryCheckpointStore implements CheckpointStore {
+  private checkpoints = new Map<string, bigint>();
+
+  async load(key: string): Promise<bigint | undefined> {
+    return this.checkpoints.get(key);
+  }
+
+  async save(key: string, block: bigint): Promise<void> {
+    this.checkpoints.set(key, block);
+  }
+}
+
+/**
+ * FileCheckpointStore - keeps checkpoints in a JSON file
+ * The file is replaced atomically on every save, so a crash never leaves it half written.
+ */
+export class FileCheckpointStore implements CheckpointStore {
+  private readonly path: string;
+  private checkpoints?: Promise<Map<string, bigint>>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * Create a new FileCheckpointStore
+   * @param path Path of the JSON file, created on the first save
+   */
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(key: string): Promise<bigint | undefined> {
+    return (await this.read()).get(key);
+  }
+
+  async save(key: string, block: bigint): Promise<void> {
+    const checkpoints = await this.read();
+    checkpoints.set(key, block);
+
+    // Write one snapshot at a time, so an older snapshot never overwrites a newer one
+    this.writing = this.writing
+      .catch(() => {})
+      .then(async () => {
+        const temporary = `${this.path}.tmp`;
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(temporary, stringifyWithBigInt(Object.fromEntries(checkpoints)));
+        await rename(temporary, this.path);
+      });
+    return this.writing;
+  }
+
+  /**
+   * Read the file once, later calls use the cached checkpoints
+   */
+  private read(): Promise<Map<string, bigint>> {
+    if (!this.checkpoints) {
+      this.checkpoints = readFile(this.path, 'utf8').then(
+        (text) => new Map(Object.entries(parseWithBigInt<Record<string, bigint>>(text))),
+        (e: NodeJS.ErrnoException) => {
+          if (e.code === 'ENOENT') return new Map();
+          // Try again on the next call
+          this.checkpoints = undefined;
+          throw e;
+        }
+      );
+    }
+    return this.checkpoints;
+  }
+}
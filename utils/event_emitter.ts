@@ -0,0 +1,110 @@
+/**
+ * Typed event emitter
+ * A minimal, strongly typed alternative to Node's EventEmitter
+ */
+
+import { getLogger } from './logger';
+
+const logger = getLogger('events');
+
+/**
+ * Listener for an event payload
+ */
+export type EventListener<T> = (payload: T) => void | Promise<void>;
+
+/**
+ * TypedEventEmitter - emits events whose payload types are declared by an event map
+ */
+export class TypedEventEmitter<Events extends object> {
+  private listeners = new Map<keyof Events, Set<EventListener<never>>>();
+
+  /**
+   * Register a listener for an event
+   * @param event The event name
+   * @param listener The listener to call when the event is emitted
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    let listeners = this.listeners.get(event);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(event, listeners);
+    }
+    listeners.add(listener);
+
+    return () => this.off(event, listener);
+  }
+
+  /**
+   * Register a listener that is removed after its first call
+   * @param event The event name
+   * @param listener The listener to call when the event is emitted
+   * @returns A function that removes the listener
+   */
+  once<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): () => void {
+    const off = this.on(event, (payload) => {
+      off();
+      return listener(payload);
+    });
+    return off;
+  }
+
+  /**
+   * Remove a listener for an event
+   * @param event The event name
+   * @param listener The listener to remove
+   */
+  off<K extends keyof Events>(event: K, listener: EventListener<Events[K]>): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      this.listeners.delete(event);
+    }
+  }
+
+  /**
+   * Emit an event to all registered listeners
+   * Listener errors are logged and never propagate to the emitter
+   * @param event The event name
+   * @param payload The event payload
+   */
+  emit<K extends keyof Events>(event: K, payload: Events[K]): void {
+    const listeners = this.listeners.get(event);
+    if (!listeners) return;
+
+    for (const listener of [...listeners] as EventListener<Events[K]>[]) {
+      try {
+        const result = listener(payload);
+        if (result instanceof Promise) {
+          result.catch((e) => {
+            logger.error(`Error in listener for ${String(event)}`, { error: e });
+          });
+        }
+      } catch (e) {
+        logger.error(`Error in listener for ${String(event)}`, { error: e });
+      }
+    }
+  }
+
+  /**
+   * Get the number of listeners for an event
+   * @param event The event name
+   */
+  listenerCount<K extends keyof Events>(event: K): number {
+    return this.listeners.get(event)?.size ?? 0;
+  }
+
+  /**
+   * Remove all listeners, or all listeners of a single event
+   * @param event Optional event name
+   */
+  removeAllListeners<K extends keyof Events>(event?: K): void {
+    if (event === undefined) {
+      this.listeners.clear();
+    } else {
+      this.listeners.delete(event);
+    }
+  }
+}
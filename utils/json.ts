@@ -0,0 +1,39 @@
+/**
+ * JSON utilities
+ * bigint-safe serialization, encoding bigints as strings like "123n"
+ */
+
+/**
+ * JSON replacer that encodes bigints as strings like "123n"
+ */
+export function bigintReplacer(_key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? `${value}n` : value;
+}
+
+/**
+ * JSON reviver that decodes strings like "123n" back to bigints
+ */
+export function bigintReviver(_key: string, value: unknown): unknown {
+  if (typeof value === 'string' && /^-?\d+n$/.test(value)) {
+    return BigInt(value.slice(0, -1));
+  }
+  return value;
+}
+
+/**
+ * Serialize a value to JSON, keeping bigints
+ * @param value The value to serialize
+ * @returns The JSON text
+ */
+export function stringifyWithBigInt(value: unknown): string {
+  return JSON.stringify(value, bigintReplacer);
+}
+
+/**
+ * Parse JSON written by stringifyWithBigInt
+ * @param text The JSON text
+ * @returns The parsed value
+ */
+export function parseWithBigInt<T = unknown>(text: string): T {
+  return JSON.parse(text, bigintReviver) as T;
+}
@@ -3,6 +3,8 @@
  * A TypeScript equivalent of Rust's tracing
  */
 
+import { appendFileSync, existsSync, renameSync, rmSync, statSync } from 'node:fs';
+
 /**
  * Log levels
  */
@@ -14,83 +16,542 @@ export enum LogLevel {
   TRACE = 4,
 }
 
+/**
+ * Environment variable the log levels are read from, e.g.
+ * `FROGBERRY_LOG=info,collector.mempool=debug,engine=warn`
+ */
+export const LOG_ENV_VAR = 'FROGBERRY_LOG';
+
+/**
+ * Key/value context attached to log records
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * A single log entry, as handed to sinks
+ */
+export interface LogRecord {
+  time: Date;
+  level: LogLevel;
+  message: string;
+  fields: LogFields;
+  prefix: string;
+  /** Name of the logger, empty for the root logger */
+  logger: string;
+}
+
+/**
+ * Turns a log record into a line of text
+ */
+export type LogFormatter = (record: LogRecord) => string;
+
+/**
+ * Destination of log records
+ */
+export interface LogSink {
+  write(record: LogRecord): void;
+}
+
+/**
+ * An error in a form that survives JSON serialization
+ */
+export interface SerializedError {
+  name: string;
+  message: string;
+  stack?: string;
+  cause?: unknown;
+}
+
 /**
  * Logger configuration
  */
 export interface LoggerConfig {
   level: LogLevel;
   prefix?: string;
+  /** Where records are written (default: a ConsoleSink with the text formatter) */
+  sinks?: LogSink[];
+  /** Fields attached to every record */
+  fields?: LogFields;
+}
+
+/**
+ * Log levels parsed from a spec like `info,collector.mempool=debug,engine=warn`
+ */
+export interface LogLevelSpec {
+  /** Level of loggers without a module level, set by an entry without a module name */
+  level?: LogLevel;
+  /** Levels of modules and everything below them, e.g. `collector` covers `collector.mempool` */
+  modules: Map<string, LogLevel>;
+}
+
+/**
+ * Parse the name of a log level, case insensitive
+ * @param name The name, e.g. `debug`
+ * @returns The level
+ */
+export function parseLogLevel(name: string): LogLevel {
+  const level = LogLevel[name.trim().toUpperCase() as keyof typeof LogLevel];
+  if (level === undefined) {
+    throw new Error(`Invalid log level: ${name}`);
+  }
+  return level;
+}
+
+/**
+ * Parse a log level spec like `info,collector.mempool=debug,engine=warn`
+ * @param spec The spec
+ * @returns The parsed levels
+ */
+export function parseLogLevelSpec(spec: string): LogLevelSpec {
+  const parsed: LogLevelSpec = { modules: new Map() };
+
+  for (const entry of spec.split(',')) {
+    if (entry.trim() === '') continue;
+
+    const separator = entry.indexOf('=');
+    if (separator === -1) {
+      parsed.level = parseLogLevel(entry);
+      continue;
+    }
+
+    const module = entry.slice(0, separator).trim();
+    if (module === '') {
+      throw new Error(`Missing module name in log level entry: ${entry}`);
+    }
+    parsed.modules.set(module, parseLogLevel(entry.slice(separator + 1)));
+  }
+
+  return parsed;
+}
+
+/**
+ * Serialize an error with its stack and cause
+ * @param error The error to serialize
+ * @returns A plain object
+ */
+export function serializeError(error: Error): SerializedError {
+  const serialized: SerializedError = { name: error.name, message: error.message };
+  if (error.stack) {
+    serialized.stack = error.stack;
+  }
+  if (error.cause !== undefined) {
+    serialized.cause = error.cause instanceof Error ? serializeError(error.cause) : error.cause;
+  }
+  return serialized;
+}
+
+/**
+ * JSON replacer for log fields: errors keep their stack, bigints become strings
+ */
+function replacer(_key: string, value: unknown): unknown {
+  if (value instanceof Error) return serializeError(value);
+  if (typeof value === 'bigint') return value.toString();
+  return value;
+}
+
+/**
+ * Format a field value for the text formatter
+ */
+function formatFieldValue(value: unknown): string {
+  if (value instanceof Error) return JSON.stringify(`${value}`);
+  if (typeof value === 'string') return /^[^\s"=]+$/.test(value) ? value : JSON.stringify(value);
+  if (typeof value === 'bigint') return value.toString();
+  if (typeof value === 'object' && value !== null) return JSON.stringify(value, replacer);
+  return `${value}`;
+}
+
+/**
+ * Format a record as `prefix[LEVEL] message key=value ...`, followed by the stack of any error field
+ * @param record The record to format
+ */
+export function formatText(record: LogRecord): string {
+  const fields = Object.entries(record.fields).map(
+    ([key, value]) => ` ${key}=${formatFieldValue(value)}`
+  );
+  const stacks = Object.values(record.fields)
+    .filter((value): value is Error => value instanceof Error && value.stack !== undefined)
+    .map((error) => `\n${error.stack}`);
+
+  const name = record.logger ? `${record.logger}: ` : '';
+
+  return `${record.prefix}[${LogLevel[record.level]}] ${name}${record.message}${fields.join('')}${stacks.join('')}`;
+}
+
+/**
+ * Format a record as a single JSON line: `{"time":...,"level":"info","logger":...,"msg":...,...fields}`
+ * @param record The record to format
+ */
+export function formatJson(record: LogRecord): string {
+  return JSON.stringify(
+    {
+      time: record.time.toISOString(),
+      level: LogLevel[record.level].toLowerCase(),
+      ...(record.logger ? { logger: record.logger } : {}),
+      msg: record.message,
+      ...record.fields,
+    },
+    replacer
+  );
+}
+
+/**
+ * ConsoleSink - writes records to the console method matching their level
+ */
+export class ConsoleSink implements LogSink {
+  private formatter: LogFormatter;
+
+  /**
+   * Create a new ConsoleSink
+   * @param formatter The formatter to use (default: formatText)
+   */
+  constructor(formatter: LogFormatter = formatText) {
+    this.formatter = formatter;
+  }
+
+  write(record: LogRecord): void {
+    const line = this.formatter(record);
+    switch (record.level) {
+      case LogLevel.ERROR:
+        console.error(line);
+        break;
+      case LogLevel.WARN:
+        console.warn(line);
+        break;
+      case LogLevel.INFO:
+        console.info(line);
+        break;
+      case LogLevel.DEBUG:
+        console.debug(line);
+        break;
+      case LogLevel.TRACE:
+        console.trace(line);
+        break;
+    }
+  }
+}
+
+/**
+ * Options for the file sink
+ */
+export interface FileSinkOptions {
+  /** Path of the log file */
+  path: string;
+  /** The formatter to use (default: formatJson) */
+  formatter?: LogFormatter;
+  /** Size in bytes after which the file is rotated, 0 to never rotate (default: 10 MiB) */
+  maxBytes?: number;
+  /** Number of rotated files to keep as path.1 ... path.N (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * FileSink - appends records to a file, rotating it by size
+ * Writes are synchronous so no record is lost when the process exits.
+ */
+export class FileSink implements LogSink {
+  private path: string;
+  private formatter: LogFormatter;
+  private maxBytes: number;
+  private maxFiles: number;
+  private size: number;
+
+  /**
+   * Create a new FileSink
+   * @param options Options for the sink
+   */
+  constructor(options: FileSinkOptions) {
+    this.path = options.path;
+    this.formatter = options.formatter ?? formatJson;
+    this.maxBytes = options.maxBytes ?? 10 * 1024 * 1024;
+    this.maxFiles = options.maxFiles ?? 5;
+    this.size = existsSync(this.path) ? statSync(this.path).size : 0;
+  }
+
+  write(record: LogRecord): void {
+    const line = `${this.formatter(record)}\n`;
+    const bytes = Buffer.byteLength(line);
+
+    if (this.maxBytes > 0 && this.size > 0 && this.size + bytes > this.maxBytes) {
+      this.rotate();
+    }
+
+    appendFileSync(this.path, line);
+    this.size += bytes;
+  }
+
+  /**
+   * Shift path.1 ... path.N-1 up by one, dropping the oldest, and move the current file to path.1
+   */
+  private rotate(): void {
+    if (this.maxFiles <= 0) {
+      rmSync(this.path, { force: true });
+    } else {
+      rmSync(`${this.path}.${this.maxFiles}`, { force: true });
+      for (let i = this.maxFiles - 1; i >= 1; i--) {
+        if (existsSync(`${this.path}.${i}`)) {
+          renameSync(`${this.path}.${i}`, `${this.path}.${i + 1}`);
+        }
+      }
+      renameSync(this.path, `${this.path}.1`);
+    }
+    this.size = 0;
+  }
+}
+
+/**
+ * MemorySink - keeps records in memory, e.g. to assert on them in tests
+ */
+export class MemorySink implements LogSink {
+  readonly records: LogRecord[] = [];
+  private limit: number;
+
+  /**
+   * Create a new MemorySink
+   * @param limit Maximum number of records to keep, the oldest are dropped first (default: 10000)
+   */
+  constructor(limit = 10_000) {
+    this.limit = limit;
+  }
+
+  write(record: LogRecord): void {
+    this.records.push(record);
+    if (this.records.length > this.limit) {
+      this.records.splice(0, this.records.length - this.limit);
+    }
+  }
+
+  /**
+   * Remove all records
+   */
+  clear(): void {
+    this.records.length = 0;
+  }
+}
+
+/**
+ * State shared by a logger and all of its children
+ */
+interface LoggerState {
+  /** Level of loggers without a module level */
+  level: LogLevel;
+  /** Levels by module name */
+  modules: Map<string, LogLevel>;
+  /** Incremented on every level change, so loggers know to resolve their level again */
+  version: number;
+  prefix: string;
+  sinks: LogSink[];
 }
 
 /**
  * Logger class
  */
 export class Logger {
-  private level: LogLevel;
-  private prefix: string;
+  private state: LoggerState;
+  private name = '';
+  private fields: LogFields;
+  private resolvedLevel: LogLevel;
+  private resolvedVersion = 0;
 
   constructor(config: LoggerConfig) {
-    this.level = config.level;
-    this.prefix = config.prefix || '';
+    this.state = {
+      level: config.level,
+      modules: new Map(),
+      version: 0,
+      prefix: config.prefix || '',
+      sinks: config.sinks ?? [new ConsoleSink()],
+    };
+    this.fields = { ...config.fields };
+    this.resolvedLevel = config.level;
+  }
+
+  /**
+   * Create a logger that adds fields to every record
+   * The child shares its name, level, prefix and sinks with this logger.
+   * @param fields The fields to add
+   */
+  child(fields: LogFields): Logger {
+    return this.derive(this.name, { ...this.fields, ...fields });
   }
 
   /**
-   * Set the log level
+   * Create a named logger for a module, e.g. `collector.mempool`
+   * Its level is the level of the longest matching module name, falling back to the level of
+   * loggers without a module level. Prefix and sinks are shared with this logger.
+   * @param name The module name, appended to this logger's name with a dot
+   */
+  named(name: string): Logger {
+    return this.derive(this.name ? `${this.name}.${name}` : name, this.fields);
+  }
+
+  /**
+   * Set the log level of this logger's module, or of loggers without a module level when
+   * called on the root logger
    */
   setLevel(level: LogLevel): void {
-    this.level = level;
+    if (this.name) {
+      this.state.modules.set(this.name, level);
+    } else {
+      this.state.level = level;
+    }
+    this.state.version++;
+  }
+
+  /**
+   * Apply a log level spec like `info,collector.mempool=debug,engine=warn`
+   * The module levels replace all previous module levels. The default level only changes when
+   * the spec has an entry without a module name.
+   * @param spec The spec, or an already parsed spec
+   */
+  setLevels(spec: string | LogLevelSpec): void {
+    const parsed = typeof spec === 'string' ? parseLogLevelSpec(spec) : spec;
+    if (parsed.level !== undefined) {
+      this.state.level = parsed.level;
+    }
+    this.state.modules = new Map(parsed.modules);
+    this.state.version++;
+  }
+
+  /**
+   * Get the level this logger writes records at
+   */
+  getLevel(): LogLevel {
+    if (this.resolvedVersion !== this.state.version) {
+      this.resolvedLevel = this.resolveLevel();
+      this.resolvedVersion = this.state.version;
+    }
+    return this.resolvedLevel;
+  }
+
+  /**
+   * Get the name of this logger, empty for the root logger
+   */
+  getName(): string {
+    return this.name;
   }
 
   /**
    * Set the log prefix
    */
   setPrefix(prefix: string): void {
-    this.prefix = prefix;
+    this.state.prefix = prefix;
   }
 
   /**
-   * Log an error message
+   * Replace all sinks
+   * @param sinks The new sinks
    */
-  error(message: string): void {
-    if (this.level >= LogLevel.ERROR) {
-      console.error(`${this.prefix}[ERROR] ${message}`);
+  setSinks(sinks: LogSink[]): void {
+    this.state.sinks = [...sinks];
+  }
+
+  /**
+   * Add a sink
+   * @param sink The sink to add
+   * @returns A function that removes the sink
+   */
+  addSink(sink: LogSink): () => void {
+    this.state.sinks = [...this.state.sinks, sink];
+    return () => {
+      this.state.sinks = this.state.sinks.filter((s) => s !== sink);
+    };
+  }
+
+  /**
+   * Check whether records of a level are written
+   * @param level The level to check
+   */
+  isEnabled(level: LogLevel): boolean {
+    return this.getLevel() >= level;
+  }
+
+  /**
+   * Write a record to every sink
+   * @param level The level of the record
+   * @param message The message
+   * @param fields Fields of this record, merged over the logger's fields
+   */
+  log(level: LogLevel, message: string, fields?: LogFields): void {
+    if (!this.isEnabled(level)) return;
+
+    const record: LogRecord = {
+      time: new Date(),
+      level,
+      message,
+      fields: fields ? { ...this.fields, ...fields } : this.fields,
+      prefix: this.state.prefix,
+      logger: this.name,
+    };
+
+    for (const sink of this.state.sinks) {
+      try {
+        sink.write(record);
+      } catch (e) {
+        console.error(`${this.state.prefix}[ERROR] Log sink failed: ${e}`);
+      }
     }
   }
 
   /**
-   * Log a warning message
+   * Create a logger sharing this logger's state
    */
-  warn(message: string): void {
-    if (this.level >= LogLevel.WARN) {
-      console.warn(`${this.prefix}[WARN] ${message}`);
+  private derive(name: string, fields: LogFields): Logger {
+    const logger = new Logger({ level: this.state.level, sinks: [] });
+    logger.state = this.state;
+    logger.name = name;
+    logger.fields = fields;
+    logger.resolvedVersion = -1;
+    return logger;
+  }
+
+  /**
+   * Find the level of the longest module name matching this logger's name
+   */
+  private resolveLevel(): LogLevel {
+    let module = this.name;
+    while (module) {
+      const level = this.state.modules.get(module);
+      if (level !== undefined) {
+        return level;
+      }
+      const dot = module.lastIndexOf('.');
+      module = dot === -1 ? '' : module.slice(0, dot);
     }
+    return this.state.level;
+  }
+
+  /**
+   * Log an error message
+   */
+  error(message: string, fields?: LogFields): void {
+    this.log(LogLevel.ERROR, message, fields);
+  }
+
+  /**
+   * Log a warning message
+   */
+  warn(message: string, fields?: LogFields): void {
+    this.log(LogLevel.WARN, message, fields);
   }
 
   /**
    * Log an info message
    */
-  info(message: string): void {
-    if (this.level >= LogLevel.INFO) {
-      console.info(`${this.prefix}[INFO] ${message}`);
-    }
+  info(message: string, fields?: LogFields): void {
+    this.log(LogLevel.INFO, message, fields);
   }
 
   /**
    * Log a debug message
    */
-  debug(message: string): void {
-    if (this.level >= LogLevel.DEBUG) {
-      console.debug(`${this.prefix}[DEBUG] ${message}`);
-    }
+  debug(message: string, fields?: LogFields): void {
+    this.log(LogLevel.DEBUG, message, fields);
   }
 
   /**
    * Log a trace message
    */
-  trace(message: string): void {
-    if (this.level >= LogLevel.TRACE) {
-      console.trace(`${this.prefix}[TRACE] ${message}`);
-    }
+  trace(message: string, fields?: LogFields): void {
+    this.log(LogLevel.TRACE, message, fields);
   }
 }
 
@@ -101,3 +562,20 @@ export const logger = new Logger({
   level: LogLevel.INFO,
   prefix: 'Frogberry: ',
 });
+
+const envSpec = typeof process !== 'undefined' ? process.env[LOG_ENV_VAR] : undefined;
+if (envSpec) {
+  try {
+    logger.setLevels(envSpec);
+  } catch (e) {
+    logger.warn(`Ignoring ${LOG_ENV_VAR}`, { error: e });
+  }
+}
+
+/**
+ * Get the named logger of a module, e.g. `getLogger('collector.mempool')`
+ * @param name The module name
+ */
+export function getLogger(name: string): Logger {
+  return logger.named(name);
+}
@@ -0,0 +1,383 @@
+/**
+ * Metrics
+ * Counters, gauges and histograms with labels, exposed in the Prometheus text format
+ */
+
+/**
+ * Label values of a metric sample
+ */
+export type Labels = Record<string, string>;
+
+/**
+ * Kind of metric, as reported in the exposition format
+ */
+export type MetricType = 'counter' | 'gauge' | 'histogram';
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_BUCKETS = [0.001, 0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Get a stable key for a set of labels
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+/**
+ * Escape a label value for the exposition format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+/**
+ * Format labels as `{a="1",b="2"}`, or an empty string without labels
+ */
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) return '';
+
+  return `{${entries.map(([name, value]) => `${name}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+/**
+ * Format a sample value for the exposition format
+ */
+function formatValue(value: number): string {
+  if (value === Number.POSITIVE_INFINITY) return '+Inf';
+  if (value === Number.NEGATIVE_INFINITY) return '-Inf';
+  return `${value}`;
+}
+
+/**
+ * Base class of all metrics
+ */
+abstract class Metric {
+  readonly name: string;
+  readonly help: string;
+  abstract readonly type: MetricType;
+
+  constructor(name: string, help: string) {
+    this.name = name;
+    this.help = help;
+  }
+
+  /**
+   * Remove all samples
+   */
+  abstract reset(): void;
+
+  /**
+   * Get the sample lines of this metric
+   */
+  protected abstract samples(): string[];
+
+  /**
+   * Format this metric in the Prometheus text format
+   */
+  expose(): string {
+    const help = this.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+    return [
+      `# HELP ${this.name} ${help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.samples(),
+    ].join('\n');
+  }
+}
+
+/**
+ * Counter - a value that only goes up
+ */
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  /**
+   * Increment the counter
+   * @param labels The labels of the sample
+   * @param value The amount to add, must not be negative
+   */
+  inc(labels: Labels = {}, value = 1): void {
+    if (value < 0) {
+      throw new Error(`Counter ${this.name} cannot be decreased`);
+    }
+
+    const key = labelKey(labels);
+    const sample = this.values.get(key);
+    if (sample) {
+      sample.value += value;
+    } else {
+      this.values.set(key, { labels: { ...labels }, value });
+    }
+  }
+
+  /**
+   * Get the current value of a sample
+   * @param labels The labels of the sample
+   */
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Remove a sample
+   * @param labels The labels of the sample
+   */
+  remove(labels: Labels): void {
+    this.values.delete(labelKey(labels));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Gauge - a value that can go up and down
+ */
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  /**
+   * Set the gauge
+   * @param labels The labels of the sample
+   * @param value The new value
+   */
+  set(labels: Labels, value: number): void {
+    this.values.set(labelKey(labels), { labels: { ...labels }, value });
+  }
+
+  /**
+   * Increment the gauge
+   * @param labels The labels of the sample
+   * @param value The amount to add
+   */
+  inc(labels: Labels = {}, value = 1): void {
+    this.set(labels, this.get(labels) + value);
+  }
+
+  /**
+   * Decrement the gauge
+   * @param labels The labels of the sample
+   * @param value The amount to subtract
+   */
+  dec(labels: Labels = {}, value = 1): void {
+    this.set(labels, this.get(labels) - value);
+  }
+
+  /**
+   * Get the current value of a sample
+   * @param labels The labels of the sample
+   */
+  get(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.value ?? 0;
+  }
+
+  /**
+   * Remove a sample
+   * @param labels The labels of the sample
+   */
+  remove(labels: Labels): void {
+    this.values.delete(labelKey(labels));
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    return [...this.values.values()].map(
+      ({ labels, value }) => `${this.name}${formatLabels(labels)} ${formatValue(value)}`
+    );
+  }
+}
+
+/**
+ * Histogram - counts observations in cumulative buckets
+ */
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  readonly buckets: number[];
+  private values = new Map<
+    string,
+    { labels: Labels; counts: number[]; sum: number; count: number }
+  >();
+
+  /**
+   * Create a new Histogram
+   * @param name The metric name
+   * @param help The help text
+   * @param buckets Upper bounds of the buckets, +Inf is added automatically
+   */
+  constructor(name: string, help: string, buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help);
+    this.buckets = [...buckets].sort((a, b) => a - b);
+  }
+
+  /**
+   * Record an observation
+   * @param labels The labels of the sample
+   * @param value The observed value
+   */
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    let sample = this.values.get(key);
+    if (!sample) {
+      sample = { labels: { ...labels }, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.values.set(key, sample);
+    }
+
+    for (let i = 0; i < this.buckets.length; i++) {
+      if (value <= this.buckets[i]) {
+        sample.counts[i]++;
+      }
+    }
+    sample.sum += value;
+    sample.count++;
+  }
+
+  /**
+   * Start a timer that observes the elapsed time in seconds when called
+   * @param labels The labels of the sample
+   * @returns A function that records the observation and returns it
+   */
+  startTimer(labels: Labels): () => number {
+    const start = performance.now();
+    return () => {
+      const seconds = (performance.now() - start) / 1000;
+      this.observe(labels, seconds);
+      return seconds;
+    };
+  }
+
+  /**
+   * Get the number of observations of a sample
+   * @param labels The labels of the sample
+   */
+  count(labels: Labels = {}): number {
+    return this.values.get(labelKey(labels))?.count ?? 0;
+  }
+
+  reset(): void {
+    this.values.clear();
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+
+    for (const { labels, counts, sum, count } of this.values.values()) {
+      this.buckets.forEach((bound, i) => {
+        const le = formatLabels({ ...labels, le: formatValue(bound) });
+        lines.push(`${this.name}_bucket${le} ${counts[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${formatValue(sum)}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${count}`);
+    }
+
+    return lines;
+  }
+}
+
+/**
+ * MetricsRegistry - holds metrics and renders them for scraping
+ */
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+  private collectHooks = new Set<() => void>();
+
+  /**
+   * Get or create a counter
+   * @param name The metric name
+   * @param help The help text
+   */
+  counter(name: string, help: string): Counter {
+    return this.getOrCreate(name, 'counter', () => new Counter(name, help)) as Counter;
+  }
+
+  /**
+   * Get or create a gauge
+   * @param name The metric name
+   * @param help The help text
+   */
+  gauge(name: string, help: string): Gauge {
+    return this.getOrCreate(name, 'gauge', () => new Gauge(name, help)) as Gauge;
+  }
+
+  /**
+   * Get or create a histogram
+   * @param name The metric name
+   * @param help The help text
+   * @param buckets Upper bounds of the buckets
+   */
+  histogram(name: string, help: string, buckets?: number[]): Histogram {
+    return this.getOrCreate(
+      name,
+      'histogram',
+      () => new Histogram(name, help, buckets)
+    ) as Histogram;
+  }
+
+  /**
+   * Register a hook that updates metrics right before they are rendered, e.g. to sample gauges
+   * @param hook The hook to call
+   * @returns A function that removes the hook
+   */
+  onCollect(hook: () => void): () => void {
+    this.collectHooks.add(hook);
+    return () => {
+      this.collectHooks.delete(hook);
+    };
+  }
+
+  /**
+   * Render all metrics in the Prometheus text format
+   */
+  expose(): string {
+    for (const hook of this.collectHooks) {
+      hook();
+    }
+
+    const metrics = [...this.metrics.values()].map((metric) => metric.expose());
+    return metrics.length > 0 ? `${metrics.join('\n')}\n` : '';
+  }
+
+  /**
+   * Remove all samples of all metrics
+   */
+  reset(): void {
+    for (const metric of this.metrics.values()) {
+      metric.reset();
+    }
+  }
+
+  /**
+   * Get an existing metric or register a new one
+   */
+  private getOrCreate(name: string, type: MetricType, create: () => Metric): Metric {
+    const existing = this.metrics.get(name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${name} is already registered as a ${existing.type}`);
+      }
+      return existing;
+    }
+
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(name)) {
+      throw new Error(`Invalid metric name: ${name}`);
+    }
+
+    const metric = create();
+    this.metrics.set(name, metric);
+    return metric;
+  }
+}
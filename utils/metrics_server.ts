@@ -0,0 +1,52 @@
+/**
+ * Metrics server
+ * Serves a metrics registry over HTTP for Prometheus to scrape
+ */
+
+import type { Server } from 'bun';
+import { getLogger } from './logger';
+import type { MetricsRegistry } from './metrics';
+
+const logger = getLogger('metrics');
+
+/**
+ * Options for the metrics server
+ */
+export interface MetricsServerOptions {
+  /** Port to listen on (default: 9464) */
+  port?: number;
+  /** Hostname to bind to (default: 127.0.0.1, only reachable locally) */
+  hostname?: string;
+  /** Path the metrics are served on (default: /metrics) */
+  path?: string;
+}
+
+/**
+ * Serve a metrics registry in the Prometheus text format
+ * @param registry The registry to serve
+ * @param options Options for the server
+ * @returns The running server, stop it with server.stop()
+ */
+export function serveMetrics(
+  registry: MetricsRegistry,
+  options: MetricsServerOptions = {}
+): Server {
+  const { port = 9464, hostname = '127.0.0.1', path = '/metrics' } = options;
+
+  const server = Bun.serve({
+    port,
+    hostname,
+    fetch(request) {
+      if (new URL(request.url).pathname !== path) {
+        return new Response('Not Found', { status: 404 });
+      }
+
+      return new Response(registry.expose(), {
+        headers: { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' },
+      });
+    },
+  });
+
+  logger.info(`Serving metrics on http://${hostname}:${server.port}${path}`);
+  return server;
+}
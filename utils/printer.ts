@@ -3,7 +3,9 @@
  * Provides common functionality for printing actions
  */
 
-import { logger } from './logger';
+import { getLogger } from './logger';
+
+const logger = getLogger('printer');
 
 /**
  * Print an action to the console
@@ -0,0 +1,443 @@
+/**
+ * Provider pool
+ * Spread the RPC requests of collectors over several endpoints, with failover, health scoring
+ * and hedged requests
+ */
+
+import {
+  http,
+  type Chain,
+  type EIP1193RequestFn,
+  type PublicClient,
+  createPublicClient,
+  custom,
+  webSocket,
+} from 'viem';
+import { getLogger } from './logger';
+import { type Counter, type Gauge, type Histogram, MetricsRegistry } from './metrics';
+
+const logger = getLogger('provider_pool');
+
+/**
+ * An RPC endpoint of a pool
+ */
+export interface ProviderEndpointConfig {
+  /** HTTP or WebSocket URL of the endpoint */
+  url: string;
+  /** Name used in logs and metric labels (default: the host of the URL) */
+  name?: string;
+}
+
+/**
+ * How endpoints are ranked for each request
+ * - priority: in the configured order, the first endpoint is the primary
+ * - score: by health score, favouring low latency and few errors
+ */
+export type ProviderSelection = 'priority' | 'score';
+
+/**
+ * Configuration for the provider pool
+ */
+export interface ProviderPoolConfig {
+  /** The endpoints, as URLs or endpoint configurations */
+  endpoints: (string | ProviderEndpointConfig)[];
+  /** The chain of the endpoints */
+  chain?: Chain;
+  /** How endpoints are ranked for each request (default: priority) */
+  selection?: ProviderSelection;
+  /** Timeout of a request to a single endpoint in milliseconds (default: 10000) */
+  timeoutMs?: number;
+  /** Endpoints a hedged request is sent to at once, the first answer wins (default: 1, off) */
+  hedge?: number;
+  /** Methods that are hedged (default: eth_getBlockByNumber and eth_getBlockByHash) */
+  hedgedMethods?: string[];
+  /** Consecutive failures after which an endpoint is benched (default: 3) */
+  maxConsecutiveFailures?: number;
+  /** Time a benched endpoint is tried only after all others, in milliseconds (default: 30000) */
+  cooldownMs?: number;
+  /** Registry the pool records its metrics in (default: a new registry per pool) */
+  metrics?: MetricsRegistry;
+}
+
+/**
+ * Health of an endpoint
+ */
+export interface ProviderEndpointStats {
+  name: string;
+  /** False while the endpoint is benched after consecutive failures */
+  healthy: boolean;
+  /** Moving average of the latency of successful requests in milliseconds */
+  latencyMs: number;
+  /** Moving average of the share of failed requests, from 0 to 1 */
+  errorRate: number;
+  /** Score used by the score selection, lower is better */
+  score: number;
+  requests: number;
+  failures: number;
+}
+
+/**
+ * Either a client, or a pool whose client collectors use
+ */
+export type ClientSource = PublicClient | ProviderPool;
+
+/** Weight of the latest request in the moving averages */
+const EWMA_ALPHA = 0.2;
+
+/**
+ * An endpoint with its transport and health
+ */
+interface Endpoint {
+  name: string;
+  request: EIP1193RequestFn;
+  latencyMs: number;
+  errorRate: number;
+  consecutiveFailures: number;
+  benchedUntil: number;
+  requests: number;
+  failures: number;
+}
+
+/**
+ * Metrics recorded by the pool
+ */
+interface ProviderPoolMetrics {
+  requests: Counter;
+  duration: Histogram;
+  failovers: Counter;
+  healthy: Gauge;
+}
+
+/**
+ * Check whether an RPC error means that a getLogs range spans too many blocks or results
+ * @param error The error
+ * @returns Whether the range should be shrunk
+ */
+export function isRangeTooLargeError(error: unknown): boolean {
+  const pattern =
+    /block range|range (is )?too (large|wide|big)|too many (results|logs|blocks)|query returned more than|exceeds? .*limit|limit exceeded|response size/i;
+
+  let current: unknown = error;
+  while (current instanceof Error) {
+    const { code, details } = current as Error & { code?: number; details?: string };
+    if (code === -32005 || pattern.test(current.message) || pattern.test(details ?? '')) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Check whether an error is the node not supporting a method
+ * @param error The error
+ * @returns Whether the method is unsupported
+ */
+export function isMethodNotSupportedError(error: unknown): boolean {
+  const pattern =
+    /method .*(not (found|supported|available)|does not exist)|unsupported method|notifications not supported/i;
+
+  let current: unknown = error;
+  while (current instanceof Error) {
+    const { code, details } = current as Error & { code?: number; details?: string };
+    if (code === -32601 || pattern.test(current.message) || pattern.test(details ?? '')) {
+      return true;
+    }
+    current = current.cause;
+  }
+  return false;
+}
+
+/**
+ * Check whether an RPC error is caused by the endpoint, rather than by the request itself, so
+ * another endpoint may succeed
+ */
+function isEndpointError(error: unknown): boolean {
+  let current: unknown = error;
+  while (current instanceof Error) {
+    const { code, details } = current as Error & { code?: number; details?: string };
+    // Rate limits are per endpoint, even when reported with the code of oversized ranges
+    if (/rate limit|too many requests/i.test(`${current.message} ${details ?? ''}`)) {
+      return true;
+    }
+    // Invalid params and reverted calls fail the same on every endpoint
+    if (code === -32602 || code === 3 || /execution reverted/i.test(current.message)) {
+      return false;
+    }
+    current = current.cause;
+  }
+
+  // So do oversized getLogs ranges, which the caller shrinks
+  return !isRangeTooLargeError(error);
+}
+
+/**
+ * ProviderPool - a client backed by several RPC endpoints
+ *
+ * Each request goes to the best ranked endpoint and fails over to the next one when the endpoint
+ * fails or times out. Endpoints that fail repeatedly are benched for a while. Requests with a
+ * hedged method are sent to several endpoints at once and the first response wins.
+ */
+export class ProviderPool {
+  /** Client that sends its requests through the pool */
+  readonly client: PublicClient;
+  private readonly endpoints: Endpoint[];
+  private readonly selection: ProviderSelection;
+  private readonly hedge: number;
+  private readonly hedgedMethods: Set<string>;
+  private readonly maxConsecutiveFailures: number;
+  private readonly cooldownMs: number;
+  private readonly registry: MetricsRegistry;
+  private readonly metrics: ProviderPoolMetrics;
+
+  /**
+   * Create a new ProviderPool
+   * @param config Configuration of the pool
+   * @throws If no endpoint is configured
+   */
+  constructor(config: ProviderPoolConfig) {
+    if (config.endpoints.length === 0) {
+      throw new Error('ProviderPool needs at least one endpoint');
+    }
+
+    const timeout = config.timeoutMs ?? 10000;
+    const names = new Set<string>();
+    this.endpoints = config.endpoints.map((endpoint) => {
+      const { url, name } = typeof endpoint === 'string' ? { url: endpoint } : endpoint;
+
+      // Default to the host, so API keys in the path stay out of logs and metrics
+      let uniqueName = name ?? new URL(url).host;
+      for (let i = 2; names.has(uniqueName); i++) {
+        uniqueName = `${name ?? new URL(url).host}#${i}`;
+      }
+      names.add(uniqueName);
+
+      // Retries are left to the pool, which retries on another endpoint
+      const transport = /^wss?:/.test(url)
+        ? webSocket(url, { retryCount: 0, timeout })
+        : http(url, { retryCount: 0, timeout });
+
+      return {
+        name: uniqueName,
+        request: transport({ chain: config.chain, retryCount: 0 }).request,
+        latencyMs: 0,
+        errorRate: 0,
+        consecutiveFailures: 0,
+        benchedUntil: 0,
+        requests: 0,
+        failures: 0,
+      };
+    });
+
+    this.selection = config.selection ?? 'priority';
+    this.hedge = Math.max(1, config.hedge ?? 1);
+    this.hedgedMethods = new Set(
+      config.hedgedMethods ?? ['eth_getBlockByNumber', 'eth_getBlockByHash']
+    );
+    this.maxConsecutiveFailures = config.maxConsecutiveFailures ?? 3;
+    this.cooldownMs = config.cooldownMs ?? 30000;
+
+    this.registry = config.metrics ?? new MetricsRegistry();
+    this.metrics = {
+      requests: this.registry.counter(
+        'frogberry_rpc_requests_total',
+        'RPC requests sent to each endpoint, by method and result'
+      ),
+      duration: this.registry.histogram(
+        'frogberry_rpc_request_seconds',
+        'Time each endpoint took to answer an RPC request'
+      ),
+      failovers: this.registry.counter(
+        'frogberry_rpc_failovers_total',
+        'Requests that failed on an endpoint and were retried on the next one'
+      ),
+      healthy: this.registry.gauge(
+        'frogberry_rpc_endpoint_healthy',
+        'Whether each endpoint is healthy (1) or benched (0)'
+      ),
+    };
+    this.registry.onCollect(() => {
+      const now = Date.now();
+      for (const endpoint of this.endpoints) {
+        this.metrics.healthy.set({ endpoint: endpoint.name }, endpoint.benchedUntil > now ? 0 : 1);
+      }
+    });
+
+    this.client = createPublicClient({
+      chain: config.chain,
+      transport: custom(
+        { request: ({ method, params }) => this.request(method, params) },
+        { retryCount: 0 }
+      ),
+    }) as PublicClient;
+  }
+
+  /**
+   * Get the registry the pool records its metrics in
+   */
+  metricsRegistry(): MetricsRegistry {
+    return this.registry;
+  }
+
+  /**
+   * Get the health of each endpoint, in the configured order
+   */
+  stats(): ProviderEndpointStats[] {
+    const now = Date.now();
+    return this.endpoints.map((endpoint) => ({
+      name: endpoint.name,
+      healthy: endpoint.benchedUntil <= now,
+      latencyMs: endpoint.latencyMs,
+      errorRate: endpoint.errorRate,
+      score: this.score(endpoint),
+      requests: endpoint.requests,
+      failures: endpoint.failures,
+    }));
+  }
+
+  /**
+   * Send a JSON-RPC request through the pool
+   * @param method The RPC method
+   * @param params The RPC parameters
+   * @returns The result of the first endpoint that answers
+   * @throws The error of the last endpoint tried, or the first error caused by the request itself
+   */
+  async request(method: string, params?: unknown): Promise<unknown> {
+    const ranked = this.rank();
+    const hedge = this.hedgedMethods.has(method) ? Math.min(this.hedge, ranked.length) : 1;
+    let lastError: unknown;
+    let next = 0;
+
+    if (hedge > 1) {
+      const group = ranked.slice(0, hedge);
+      next = hedge;
+      try {
+        return await Promise.any(group.map((endpoint) => this.send(endpoint, method, params)));
+      } catch (error) {
+        const errors = error instanceof AggregateError ? error.errors : [error];
+        const requestError = errors.find((e) => !isEndpointError(e));
+        if (requestError) throw requestError;
+
+        lastError = errors.at(-1);
+        if (next < ranked.length) {
+          for (const endpoint of group) {
+            this.metrics.failovers.inc({ endpoint: endpoint.name });
+          }
+        }
+      }
+    }
+
+    for (; next < ranked.length; next++) {
+      const endpoint = ranked[next];
+      try {
+        return await this.send(endpoint, method, params);
+      } catch (error) {
+        if (!isEndpointError(error)) throw error;
+
+        lastError = error;
+        if (next < ranked.length - 1) {
+          this.metrics.failovers.inc({ endpoint: endpoint.name });
+          logger.debug(`${method} failed on ${endpoint.name}, failing over`, { error });
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Rank the endpoints for a request; benched endpoints go last, the soonest available first
+   */
+  private rank(): Endpoint[] {
+    const now = Date.now();
+    const available = this.endpoints.filter((endpoint) => endpoint.benchedUntil <= now);
+    const benched = this.endpoints
+      .filter((endpoint) => endpoint.benchedUntil > now)
+      .sort((a, b) => a.benchedUntil - b.benchedUntil);
+
+    if (this.selection === 'score') {
+      available.sort((a, b) => this.score(a) - this.score(b));
+    }
+    return [...available, ...benched];
+  }
+
+  /**
+   * Score an endpoint by latency, penalized by its error rate; lower is better
+   */
+  private score(endpoint: Endpoint): number {
+    return endpoint.latencyMs * (1 + 10 * endpoint.errorRate);
+  }
+
+  /**
+   * Send a request to one endpoint and record its health
+   */
+  private async send(endpoint: Endpoint, method: string, params: unknown): Promise<unknown> {
+    const labels = { endpoint: endpoint.name, method };
+    const start = performance.now();
+    endpoint.requests++;
+
+    try {
+      const result = await endpoint.request({ method, params } as Parameters<EIP1193RequestFn>[0]);
+      this.recordSuccess(endpoint, performance.now() - start);
+      this.metrics.requests.inc({ ...labels, result: 'ok' });
+      this.metrics.duration.observe(labels, (performance.now() - start) / 1000);
+      return result;
+    } catch (error) {
+      this.metrics.requests.inc({ ...labels, result: 'error' });
+      this.metrics.duration.observe(labels, (performance.now() - start) / 1000);
+
+      if (isEndpointError(error)) {
+        this.recordFailure(endpoint);
+      } else {
+        // The endpoint answered, the request itself was invalid
+        this.recordSuccess(endpoint, performance.now() - start);
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Record a request an endpoint answered
+   */
+  private recordSuccess(endpoint: Endpoint, latencyMs: number): void {
+    endpoint.latencyMs =
+      endpoint.requests - endpoint.failures <= 1
+        ? latencyMs
+        : endpoint.latencyMs + EWMA_ALPHA * (latencyMs - endpoint.latencyMs);
+    endpoint.errorRate -= EWMA_ALPHA * endpoint.errorRate;
+    endpoint.consecutiveFailures = 0;
+
+    if (endpoint.benchedUntil > 0) {
+      endpoint.benchedUntil = 0;
+      logger.info(`RPC endpoint ${endpoint.name} recovered`);
+    }
+  }
+
+  /**
+   * Record a request an endpoint failed, benching it after too many failures in a row
+   */
+  private recordFailure(endpoint: Endpoint): void {
+    endpoint.failures++;
+    endpoint.errorRate += EWMA_ALPHA * (1 - endpoint.errorRate);
+    endpoint.consecutiveFailures++;
+
+    if (endpoint.consecutiveFailures >= this.maxConsecutiveFailures) {
+      const wasHealthy = endpoint.benchedUntil <= Date.now();
+      endpoint.benchedUntil = Date.now() + this.cooldownMs;
+      if (wasHealthy) {
+        logger.warn(`RPC endpoint ${endpoint.name} benched for ${this.cooldownMs}ms`, {
+          consecutiveFailures: endpoint.consecutiveFailures,
+        });
+      }
+    }
+  }
+}
+
+/**
+ * Get the client of a client source
+ * @param source A client, or a pool
+ * @returns The client, or the client of the pool
+ */
+export function toPublicClient(source: ClientSource): PublicClient {
+  return source instanceof ProviderPool ? source.client : source;
+}
@@ -0,0 +1,162 @@
+/**
+ * Keyed task pool
+ * Runs tasks concurrently up to a limit while keeping tasks with the same key in order
+ */
+
+import { getLogger } from './logger';
+
+const logger = getLogger('task_pool');
+
+/**
+ * A task whose key is free, waiting for a slot
+ */
+interface ReadyTask {
+  task: () => Promise<void>;
+  key: unknown;
+  /** Admits the scheduling call once the task starts, unset for tasks admitted already */
+  admit?: () => void;
+}
+
+/**
+ * KeyedTaskPool - bounded concurrency with per-key ordering
+ *
+ * A task only takes a slot once the earlier tasks with its key have completed. Until then it
+ * waits in the queue of its key, so one busy key cannot hold every slot and stall other keys.
+ */
+export class KeyedTaskPool {
+  private readonly concurrency: number;
+  private readonly maxQueued: number;
+  private active = 0;
+  private admitted = 0;
+  private queued = 0;
+  private ready: ReadyTask[] = [];
+  private keys = new Map<unknown, (() => Promise<void>)[]>();
+  private queueWaiters: (() => void)[] = [];
+  private idleWaiters: (() => void)[] = [];
+
+  /**
+   * Create a new KeyedTaskPool
+   * @param concurrency Maximum number of tasks running at the same time
+   * @param maxQueued Maximum number of tasks waiting for an earlier task with the same key
+   * (default: 1000)
+   */
+  constructor(concurrency: number, maxQueued = 1000) {
+    if (!Number.isInteger(concurrency) || concurrency < 1) {
+      throw new Error(`Invalid concurrency: ${concurrency}`);
+    }
+    if (!Number.isInteger(maxQueued) || maxQueued < 0) {
+      throw new Error(`Invalid maxQueued: ${maxQueued}`);
+    }
+    this.concurrency = concurrency;
+    this.maxQueued = maxQueued;
+  }
+
+  /**
+   * Schedule a task
+   * Tasks with the same key run one after another in scheduling order; tasks without a key
+   * are never ordered. Task errors are logged, callers should handle them inside the task.
+   * @param task The task to run
+   * @param key Optional ordering key
+   * @returns A promise that resolves once the task is admitted, not when it completes: a task
+   * with a free key is admitted when it starts, a task behind an earlier task with the same key
+   * when it fits in the key queues
+   */
+  async schedule(task: () => Promise<void>, key?: unknown): Promise<void> {
+    while (key !== undefined && this.keys.has(key)) {
+      if (this.queued < this.maxQueued) {
+        this.keys.get(key)?.push(task);
+        this.queued++;
+        this.admitted++;
+        return;
+      }
+
+      await new Promise<void>((resolve) => {
+        this.queueWaiters.push(resolve);
+      });
+    }
+
+    if (key !== undefined) {
+      this.keys.set(key, []);
+    }
+
+    await new Promise<void>((resolve) => {
+      this.ready.push({ task, key, admit: resolve });
+      this.pump();
+    });
+  }
+
+  /**
+   * Wait until every admitted task has completed
+   */
+  async idle(): Promise<void> {
+    if (this.admitted === 0) return;
+
+    await new Promise<void>((resolve) => {
+      this.idleWaiters.push(resolve);
+    });
+  }
+
+  /**
+   * Get the number of admitted tasks that have not completed
+   */
+  size(): number {
+    return this.admitted;
+  }
+
+  /**
+   * Start ready tasks while slots are free
+   */
+  private pump(): void {
+    while (this.active < this.concurrency && this.ready.length > 0) {
+      const next = this.ready.shift() as ReadyTask;
+      this.active++;
+
+      if (next.admit) {
+        this.admitted++;
+        next.admit();
+      }
+
+      Promise.resolve()
+        .then(next.task)
+        .catch((e) => {
+          logger.error('Unhandled error in pooled task', { error: e });
+        })
+        .finally(() => this.release(next.key));
+    }
+  }
+
+  /**
+   * Free the slot of a completed task, handing the turn of its key to the next task
+   */
+  private release(key: unknown): void {
+    this.active--;
+    this.admitted--;
+
+    if (key !== undefined) {
+      const task = this.keys.get(key)?.shift();
+      if (task) {
+        this.queued--;
+        this.ready.push({ task, key });
+      } else {
+        this.keys.delete(key);
+      }
+
+      // Room in the key queues, or a free key: let waiting calls check again
+      const waiters = this.queueWaiters;
+      this.queueWaiters = [];
+      for (const waiter of waiters) {
+        waiter();
+      }
+    }
+
+    this.pump();
+
+    if (this.admitted === 0) {
+      const waiters = this.idleWaiters;
+      this.idleWaiters = [];
+      for (const waiter of waiters) {
+        waiter();
+      }
+    }
+  }
+}
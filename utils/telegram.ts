@@ -3,7 +3,9 @@
  * Combines functionality from action_submitter/telegram.ts and executor/telegram.ts
  */
 
-import { logger } from './logger';
+import { getLogger } from './logger';
+
+const logger = getLogger('telegram');
 
 /**
  * Message to be sent to Telegram
@@ -59,8 +61,9 @@ export class TelegramClient {
   /**
    * Send a message to Telegram
    * @param message The message to send
+   * @param signal Optional signal to abort the request
    */
-  async sendMessage(message: TelegramMessage): Promise<void> {
+  async sendMessage(message: TelegramMessage, signal?: AbortSignal): Promise<void> {
     const url = this.getUrl(message.botToken);
 
     const data: Record<string, unknown> = {
@@ -96,6 +99,7 @@ export class TelegramClient {
           'Content-Type': 'application/json',
         },
         body: JSON.stringify(data),
+        signal,
       });
 
       if (!response.ok) {
@@ -106,7 +110,7 @@ export class TelegramClient {
       const responseData = await response.json();
       logger.debug(`Response: ${JSON.stringify(responseData)}`);
     } catch (e) {
-      logger.error(`Failed to send message to Telegram: ${e}`);
+      logger.error('Failed to send message to Telegram', { error: e });
       await this.reportError(message, `${e}`);
     }
   }
@@ -152,7 +156,7 @@ export class TelegramClient {
         );
       }
     } catch (e) {
-      logger.error(`Failed to send error report to Telegram: ${e}`);
+      logger.error('Failed to send error report to Telegram', { error: e });
     }
   }
 
@@ -0,0 +1,77 @@
+/**
+ * Timeout utilities
+ * Shared error type and helpers for operations that must complete in time
+ */
+
+/**
+ * Error thrown when an operation does not complete within its timeout
+ */
+export class TimeoutError extends Error {
+  readonly timeoutMs: number;
+
+  constructor(message: string, timeoutMs: number) {
+    super(message);
+    this.name = 'TimeoutError';
+    this.timeoutMs = timeoutMs;
+  }
+}
+
+/**
+ * Options for withTimeout
+ */
+export interface WithTimeoutOptions {
+  /** Parent signal; aborting it aborts the operation */
+  signal?: AbortSignal;
+  /** Message of the TimeoutError */
+  message?: string;
+}
+
+/**
+ * Run an operation with a timeout
+ * The operation receives a signal that is aborted when the timeout expires or the parent signal
+ * is aborted. The returned promise settles at that point even if the operation ignores the signal.
+ * When the parent signal is already aborted, the operation is not started.
+ * @param operation The operation to run
+ * @param timeoutMs The timeout in milliseconds, 0 or less to only follow the parent signal
+ * @param options Options for the timeout
+ * @returns The result of the operation
+ */
+export async function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number,
+  options: WithTimeoutOptions = {}
+): Promise<T> {
+  const { signal: parent, message = `Operation timed out after ${timeoutMs}ms` } = options;
+  if (parent?.aborted) {
+    throw parent.reason;
+  }
+
+  const controller = new AbortController();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let onAbort: (() => void) | undefined;
+
+  const aborted = new Promise<never>((_, reject) => {
+    const abort = (reason: unknown) => {
+      controller.abort(reason);
+      reject(reason);
+    };
+
+    if (timeoutMs > 0) {
+      timer = setTimeout(() => abort(new TimeoutError(message, timeoutMs)), timeoutMs);
+    }
+
+    if (parent) {
+      onAbort = () => abort(parent.reason);
+      parent.addEventListener('abort', onAbort, { once: true });
+    }
+  });
+
+  try {
+    return await Promise.race([operation(controller.signal), aborted]);
+  } finally {
+    clearTimeout(timer);
+    if (onAbort) {
+      parent?.removeEventListener('abort', onAbort);
+    }
+  }
+}
@@ -0,0 +1,381 @@
+/**
+ * Tracing
+ * Spans linking events to the actions they cause, exported in the OTLP/JSON format
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { getLogger } from './logger';
+
+const logger = getLogger('tracing');
+
+/**
+ * Identifies a span within a trace, carried along with events and actions
+ */
+export interface SpanContext {
+  /** 32 hex characters, shared by every span of a trace */
+  traceId: string;
+  /** 16 hex characters */
+  spanId: string;
+}
+
+/**
+ * Attribute values of a span
+ */
+export type SpanAttributes = Record<string, string | number | boolean>;
+
+/**
+ * Role of a span, as in OTLP
+ * - internal: an operation within the engine
+ * - producer: publishes a message, e.g. a collector publishing an event
+ * - consumer: handles a message, e.g. a strategy processing an event
+ */
+export type SpanKind = 'internal' | 'producer' | 'consumer';
+
+/**
+ * A finished span
+ */
+export interface SpanData extends SpanContext {
+  parentSpanId?: string;
+  name: string;
+  kind: SpanKind;
+  /** Start time in milliseconds since the epoch, with sub-millisecond precision */
+  startTime: number;
+  /** End time in milliseconds since the epoch, with sub-millisecond precision */
+  endTime: number;
+  attributes: SpanAttributes;
+  status: 'ok' | 'error';
+  statusMessage?: string;
+}
+
+/**
+ * Options for starting a span
+ */
+export interface SpanOptions {
+  /** The parent span; without one the span starts a new trace */
+  parent?: SpanContext;
+  kind?: SpanKind;
+  attributes?: SpanAttributes;
+  /** Start time in milliseconds since the epoch (default: now) */
+  startTime?: number;
+}
+
+/**
+ * Destination of finished spans
+ */
+export interface SpanExporter {
+  export(spans: SpanData[]): Promise<void>;
+}
+
+/**
+ * Get the current time in milliseconds since the epoch, with sub-millisecond precision
+ */
+export function nowMs(): number {
+  return performance.timeOrigin + performance.now();
+}
+
+/**
+ * Generate a random id of the given number of bytes, as hex
+ */
+function randomId(bytes: number): string {
+  const buffer = crypto.getRandomValues(new Uint8Array(bytes));
+  return Array.from(buffer, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * Span - an operation in progress, recorded when ended
+ */
+export class Span {
+  readonly context: SpanContext;
+  private data: SpanData;
+  private onEnd: (span: SpanData) => void;
+  private ended = false;
+
+  constructor(name: string, options: SpanOptions, onEnd: (span: SpanData) => void) {
+    this.context = {
+      traceId: options.parent?.traceId ?? randomId(16),
+      spanId: randomId(8),
+    };
+    this.data = {
+      ...this.context,
+      parentSpanId: options.parent?.spanId,
+      name,
+      kind: options.kind ?? 'internal',
+      startTime: options.startTime ?? nowMs(),
+      endTime: 0,
+      attributes: { ...options.attributes },
+      status: 'ok',
+    };
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * Set an attribute
+   * @param key The attribute name
+   * @param value The attribute value
+   */
+  setAttribute(key: string, value: string | number | boolean): void {
+    this.data.attributes[key] = value;
+  }
+
+  /**
+   * End the span, only the first call has an effect
+   * @param error The error the operation failed with, if any
+   */
+  end(error?: unknown): void {
+    if (this.ended) return;
+    this.ended = true;
+
+    this.data.endTime = nowMs();
+    if (error !== undefined) {
+      this.data.status = 'error';
+      this.data.statusMessage = error instanceof Error ? error.message : String(error);
+    }
+    this.onEnd(this.data);
+  }
+}
+
+/**
+ * Options for a tracer
+ */
+export interface TracerOptions {
+  /** Export buffered spans at this interval in milliseconds (default: 5000) */
+  flushIntervalMs?: number;
+  /** Export right away once this many spans are buffered (default: 512) */
+  maxBatchSize?: number;
+  /**
+   * Drop new spans while this many are buffered or being exported, e.g. when the exporter is slow
+   * (default: 10000)
+   */
+  maxQueueSize?: number;
+}
+
+/**
+ * Tracer - starts spans and exports them in batches
+ */
+export class Tracer {
+  private exporter: SpanExporter;
+  private maxBatchSize: number;
+  private maxQueueSize: number;
+  private buffer: SpanData[] = [];
+  private timer?: ReturnType<typeof setInterval>;
+  private exporting: Promise<void> = Promise.resolve();
+  /** Spans buffered or waiting for their export to complete */
+  private queued = 0;
+  private dropped = 0;
+
+  /**
+   * Create a new Tracer
+   * @param exporter Where finished spans are exported to
+   * @param options Options for the tracer
+   */
+  constructor(exporter: SpanExporter, options: TracerOptions = {}) {
+    this.exporter = exporter;
+    this.maxBatchSize = options.maxBatchSize ?? 512;
+    this.maxQueueSize = options.maxQueueSize ?? 10_000;
+
+    const flushIntervalMs = options.flushIntervalMs ?? 5000;
+    if (flushIntervalMs > 0) {
+      this.timer = setInterval(() => {
+        this.flush().catch(() => {});
+      }, flushIntervalMs);
+      // Do not keep the process alive just to export spans
+      this.timer.unref?.();
+    }
+  }
+
+  /**
+   * Start a span
+   * @param name The operation name
+   * @param options Options for the span
+   * @returns The span, call end() when the operation completes
+   */
+  startSpan(name: string, options: SpanOptions = {}): Span {
+    return new Span(name, options, (span) => this.record(span));
+  }
+
+  /**
+   * Get the number of spans dropped because the queue was full
+   */
+  droppedSpans(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Export all buffered spans
+   * Exports run one after another, so spans reach the exporter in the order they ended.
+   */
+  flush(): Promise<void> {
+    const spans = this.buffer;
+    this.buffer = [];
+
+    this.exporting = this.exporting.then(async () => {
+      if (spans.length === 0) return;
+      try {
+        await this.exporter.export(spans);
+      } catch (e) {
+        logger.warn(`Failed to export ${spans.length} spans`, { error: e });
+      } finally {
+        this.queued -= spans.length;
+      }
+    });
+    return this.exporting;
+  }
+
+  /**
+   * Stop the export timer and export all buffered spans
+   */
+  async shutdown(): Promise<void> {
+    clearInterval(this.timer);
+    this.timer = undefined;
+    await this.flush();
+  }
+
+  /**
+   * Buffer a finished span
+   */
+  private record(span: SpanData): void {
+    if (this.queued >= this.maxQueueSize) {
+      this.dropped++;
+      return;
+    }
+
+    this.queued++;
+    this.buffer.push(span);
+    if (this.buffer.length >= this.maxBatchSize) {
+      this.flush().catch(() => {});
+    }
+  }
+}
+
+/**
+ * Convert an attribute value to an OTLP AnyValue
+ */
+function otlpValue(value: string | number | boolean): Record<string, unknown> {
+  if (typeof value === 'string') return { stringValue: value };
+  if (typeof value === 'boolean') return { boolValue: value };
+  return Number.isInteger(value) ? { intValue: `${value}` } : { doubleValue: value };
+}
+
+/**
+ * Convert milliseconds since the epoch to OTLP nanoseconds
+ */
+function otlpTime(ms: number): string {
+  return (BigInt(Math.floor(ms)) * 1_000_000n + BigInt(Math.round((ms % 1) * 1e6))).toString();
+}
+
+/**
+ * OTLP span kinds
+ */
+const OTLP_SPAN_KIND: Record<SpanKind, number> = { internal: 1, producer: 4, consumer: 5 };
+
+/**
+ * Build an OTLP/JSON ExportTraceServiceRequest
+ * @param spans The spans to export
+ * @param serviceName Value of the service.name resource attribute
+ * @returns The request body
+ */
+export function toOtlpJson(spans: SpanData[], serviceName = 'frogberry'): object {
+  return {
+    resourceSpans: [
+      {
+        resource: {
+          attributes: [{ key: 'service.name', value: { stringValue: serviceName } }],
+        },
+        scopeSpans: [
+          {
+            scope: { name: 'frogberry' },
+            spans: spans.map((span) => ({
+              traceId: span.traceId,
+              spanId: span.spanId,
+              ...(span.parentSpanId ? { parentSpanId: span.parentSpanId } : {}),
+              name: span.name,
+              kind: OTLP_SPAN_KIND[span.kind],
+              startTimeUnixNano: otlpTime(span.startTime),
+              endTimeUnixNano: otlpTime(span.endTime),
+              attributes: Object.entries(span.attributes).map(([key, value]) => ({
+                key,
+                value: otlpValue(value),
+              })),
+              status:
+                span.status === 'error'
+                  ? { code: 2, ...(span.statusMessage ? { message: span.statusMessage } : {}) }
+                  : { code: 1 },
+            })),
+          },
+        ],
+      },
+    ],
+  };
+}
+
+/**
+ * OtlpFileExporter - appends one OTLP/JSON request per line to a file
+ * The format of the OpenTelemetry Collector's file exporter and otlpjsonfile receiver.
+ */
+export class OtlpFileExporter implements SpanExporter {
+  private path: string;
+  private serviceName: string;
+
+  /**
+   * Create a new OtlpFileExporter
+   * @param path Path of the file
+   * @param serviceName Value of the service.name resource attribute (default: frogberry)
+   */
+  constructor(path: string, serviceName = 'frogberry') {
+    this.path = path;
+    this.serviceName = serviceName;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    await appendFile(this.path, `${JSON.stringify(toOtlpJson(spans, this.serviceName))}\n`);
+  }
+}
+
+/**
+ * Options for the OTLP/HTTP exporter
+ */
+export interface OtlpHttpExporterOptions {
+  /** Traces endpoint of the collector (default: http://localhost:4318/v1/traces) */
+  url?: string;
+  /** Additional request headers, e.g. for authentication */
+  headers?: Record<string, string>;
+  /** Value of the service.name resource attribute (default: frogberry) */
+  serviceName?: string;
+  /** Request timeout in milliseconds (default: 10000) */
+  timeoutMs?: number;
+}
+
+/**
+ * OtlpHttpExporter - posts spans as OTLP/JSON to a collector, e.g. a local OpenTelemetry Collector
+ * or Jaeger
+ */
+export class OtlpHttpExporter implements SpanExporter {
+  private url: string;
+  private headers: Record<string, string>;
+  private serviceName: string;
+  private timeoutMs: number;
+
+  /**
+   * Create a new OtlpHttpExporter
+   * @param options Options for the exporter
+   */
+  constructor(options: OtlpHttpExporterOptions = {}) {
+    this.url = options.url ?? 'http://localhost:4318/v1/traces';
+    this.headers = options.headers ?? {};
+    this.serviceName = options.serviceName ?? 'frogberry';
+    this.timeoutMs = options.timeoutMs ?? 10_000;
+  }
+
+  async export(spans: SpanData[]): Promise<void> {
+    const response = await fetch(this.url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...this.headers },
+      body: JSON.stringify(toOtlpJson(spans, this.serviceName)),
+      signal: AbortSignal.timeout(this.timeoutMs),
+    });
+
+    if (!response.ok) {
+      throw new Error(`OTLP export failed with status ${response.status}`);
+    }
+  }
+}